@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "BlockBranch" AS ENUM ('THEN', 'ELSE');
+
+-- AlterTable
+ALTER TABLE "StrategyBlock" ADD COLUMN     "branch" "BlockBranch";
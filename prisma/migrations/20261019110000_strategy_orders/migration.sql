@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "StrategyOrder" (
+    "id" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "actionId" TEXT,
+    "alpacaOrderId" TEXT NOT NULL,
+    "clientOrderId" TEXT,
+    "symbol" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "orderType" TEXT NOT NULL,
+    "qty" DOUBLE PRECISION,
+    "notional" DOUBLE PRECISION,
+    "status" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StrategyOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StrategyOrder_alpacaOrderId_key" ON "StrategyOrder"("alpacaOrderId");
+
+-- CreateIndex
+CREATE INDEX "StrategyOrder_strategyId_idx" ON "StrategyOrder"("strategyId");
+
+-- CreateIndex
+CREATE INDEX "StrategyOrder_actionId_idx" ON "StrategyOrder"("actionId");
+
+-- AddForeignKey
+ALTER TABLE "StrategyOrder" ADD CONSTRAINT "StrategyOrder_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "Strategy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StrategyOrder" ADD CONSTRAINT "StrategyOrder_actionId_fkey" FOREIGN KEY ("actionId") REFERENCES "Action"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "StrategyRunStatus" AS ENUM ('COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "StrategyRun" (
+    "id" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "trigger" JSONB NOT NULL,
+    "status" "StrategyRunStatus" NOT NULL,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StrategyRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ConditionResult" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "blockId" TEXT,
+    "conditionId" TEXT,
+    "indicatorType" TEXT NOT NULL,
+    "symbol" TEXT,
+    "operator" "Operator" NOT NULL,
+    "currentValue" DOUBLE PRECISION,
+    "previousValue" DOUBLE PRECISION,
+    "targetValue" DOUBLE PRECISION,
+    "met" BOOLEAN NOT NULL,
+    "note" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ConditionResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ActionDispatch" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "actionId" TEXT,
+    "blockId" TEXT,
+    "actionType" "ActionType" NOT NULL,
+    "parameters" JSONB NOT NULL,
+    "streamMessageId" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ActionDispatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StrategyRun_strategyId_startedAt_idx" ON "StrategyRun"("strategyId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ConditionResult_runId_idx" ON "ConditionResult"("runId");
+
+-- CreateIndex
+CREATE INDEX "ActionDispatch_runId_idx" ON "ActionDispatch"("runId");
+
+-- AddForeignKey
+ALTER TABLE "StrategyRun" ADD CONSTRAINT "StrategyRun_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "Strategy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConditionResult" ADD CONSTRAINT "ConditionResult_runId_fkey" FOREIGN KEY ("runId") REFERENCES "StrategyRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ActionDispatch" ADD CONSTRAINT "ActionDispatch_runId_fkey" FOREIGN KEY ("runId") REFERENCES "StrategyRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
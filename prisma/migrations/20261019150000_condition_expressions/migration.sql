@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Condition" ADD COLUMN     "expression" TEXT,
+ADD COLUMN     "targetExpression" TEXT;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ConditionQualifier" AS ENUM ('CONSECUTIVE', 'WITHIN', 'RISING', 'FALLING');
+
+-- AlterTable
+ALTER TABLE "Condition" ADD COLUMN     "lookbackBars" INTEGER,
+ADD COLUMN     "qualifier" "ConditionQualifier";
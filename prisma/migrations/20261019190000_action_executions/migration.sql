@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ActionExecutionStatus" AS ENUM ('IN_PROGRESS', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ActionExecution" (
+    "id" TEXT NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "actionId" TEXT,
+    "actionType" "ActionType" NOT NULL,
+    "triggerTime" TEXT NOT NULL,
+    "streamMessageId" TEXT,
+    "status" "ActionExecutionStatus" NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ActionExecution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ActionExecution_idempotencyKey_key" ON "ActionExecution"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "ActionExecution_strategyId_createdAt_idx" ON "ActionExecution"("strategyId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StrategyOrder_clientOrderId_key" ON "StrategyOrder"("clientOrderId");
+
+-- AddForeignKey
+ALTER TABLE "ActionExecution" ADD CONSTRAINT "ActionExecution_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "Strategy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
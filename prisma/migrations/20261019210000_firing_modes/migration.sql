@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "FiringMode" AS ENUM ('EVERY_EVALUATION', 'ON_TRANSITION', 'COOLDOWN');
+
+-- AlterTable
+ALTER TABLE "Strategy" ADD COLUMN     "firingMode" "FiringMode" NOT NULL DEFAULT 'EVERY_EVALUATION',
+ADD COLUMN     "cooldownMinutes" INTEGER,
+ADD COLUMN     "cooldownBars" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Action" ADD COLUMN     "firingMode" "FiringMode",
+ADD COLUMN     "cooldownMinutes" INTEGER,
+ADD COLUMN     "cooldownBars" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ActionDispatch" ADD COLUMN     "suppressedReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ActionFiringState" (
+    "id" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "actionKey" TEXT NOT NULL,
+    "reached" BOOLEAN NOT NULL DEFAULT false,
+    "lastFiredAt" TIMESTAMP(3),
+    "barsSinceFired" INTEGER NOT NULL DEFAULT 0,
+    "lastBarTime" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ActionFiringState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ActionFiringState_strategyId_actionKey_key" ON "ActionFiringState"("strategyId", "actionKey");
+
+-- AddForeignKey
+ALTER TABLE "ActionFiringState" ADD CONSTRAINT "ActionFiringState_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "Strategy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
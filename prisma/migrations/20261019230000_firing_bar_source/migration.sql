@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ActionFiringState" ADD COLUMN     "barSource" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ConditionResult" ALTER COLUMN "met" DROP NOT NULL;
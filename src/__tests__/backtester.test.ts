@@ -0,0 +1,161 @@
+// src/__tests__/backtester.test.ts
+/**
+ * Replays a one-condition strategy over five daily bars and checks the fills and summary statistics against
+ * values worked out by hand. Bars come from the fixture below instead of Alpaca; Prisma is an in-memory fake.
+ */
+import { PrismaClient } from '@prisma/client';
+import { fetchBars, AlpacaBar } from '../services/marketDataService';
+import { runBacktest, BacktestError } from '../controllers/backtestService/backtester';
+import { marketQuantitiesFromBars } from '../controllers/technicalIndicators/snapshotProvider';
+
+jest.mock('../utils/redisClient', () => ({
+    initRedis: jest.fn(async () => undefined),
+    getRedisClient: jest.fn(),
+    queueConnection: {},
+    indicatorQueue: {},
+    backtestQueue: {},
+}));
+
+jest.mock('@prisma/client', () => {
+    const actual = jest.requireActual('@prisma/client');
+    const fake = {
+        strategy: { findUnique: jest.fn() },
+        strategyBlock: { findMany: jest.fn() },
+        action: { findMany: jest.fn() },
+        condition: { findMany: jest.fn() },
+    };
+    return { ...actual, PrismaClient: jest.fn(() => fake) };
+});
+
+jest.mock('../services/marketDataService', () => ({
+    ...jest.requireActual('../services/marketDataService'),
+    fetchBars: jest.fn(),
+    fetchMarketCap: jest.fn(),
+}));
+
+jest.mock('../services/alpacaClient', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../utils/authUtils', () => ({
+    getAlpacaMarketAuth: () => ({}),
+    ALPACA_HISTORICAL_DATA_BASE_URL: 'http://localhost',
+    ALPACA_CRYPTO_DATA_BASE_URL: 'http://localhost',
+}));
+
+const db = new PrismaClient() as any;
+
+// Daily AAPL bars, Monday to Friday. SMA(1) is the close: above 100 on the first two days, below after.
+const BARS: AlpacaBar[] = [
+    { t: '2026-03-02T00:00:00Z', o: 99, h: 102, l: 98, c: 101, v: 1000 },
+    { t: '2026-03-03T00:00:00Z', o: 102, h: 105, l: 101, c: 104, v: 1000 },
+    { t: '2026-03-04T00:00:00Z', o: 105, h: 106, l: 97, c: 98, v: 1000 },
+    { t: '2026-03-05T00:00:00Z', o: 97, h: 98, l: 94, c: 95, v: 1000 },
+    { t: '2026-03-06T00:00:00Z', o: 111, h: 112, l: 99, c: 100, v: 1000 },
+];
+
+// IF SMA(1) > 100 THEN buy 10 AAPL ELSE sell 10 AAPL, fired on every evaluation
+const loadStrategy = (conditionFields: Record<string, any> = {}) => {
+    const condition = {
+        id: 'condition-1', indicatorType: 'SMA', dataSource: null, dataKey: null, symbol: 'AAPL', interval: 'daily',
+        parameters: { time_period: 1, series_type: 'close' }, operator: 'GREATER_THAN', targetValue: 100,
+        expression: null, targetExpression: null, qualifier: null, lookbackBars: null, targetIndicatorId: null,
+        ...conditionFields,
+    };
+    const action = (id: string, actionType: string) => ({
+        id, actionType, parameters: { symbol: 'AAPL', qty: 10 }, order: 0,
+        firingMode: null, cooldownMinutes: null, cooldownBars: null,
+    });
+    const block = (id: string, blockType: string, parentId: string | null, links: Record<string, any> = {}) => ({
+        id, strategyId: 'strategy-1', blockType, parameters: {}, parentId, branch: null, order: 0,
+        conditionId: null, condition: null, actionId: null, action: null, ...links,
+    });
+    const buy = action('action-buy', 'BUY');
+    const sell = action('action-sell', 'SELL');
+
+    db.strategy.findUnique.mockResolvedValue({
+        id: 'strategy-1', rootBlockId: 'block-root', firingMode: 'EVERY_EVALUATION', cooldownMinutes: null, cooldownBars: null,
+    });
+    db.strategyBlock.findMany.mockResolvedValue([
+        block('block-root', 'ROOT', null),
+        block('block-if', 'CONDITION_IF', 'block-root', { conditionId: condition.id, condition }),
+        block('block-buy', 'ACTION', 'block-if', { branch: 'THEN', actionId: buy.id, action: buy }),
+        block('block-sell', 'ACTION', 'block-if', { branch: 'ELSE', actionId: sell.id, action: sell }),
+    ]);
+    db.action.findMany.mockResolvedValue([buy, sell]);
+    db.condition.findMany.mockResolvedValue([]);
+};
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchBars as jest.Mock).mockResolvedValue(BARS);
+    loadStrategy();
+});
+
+describe('runBacktest', () => {
+    it('fills the actions fired at each close at the next open', async () => {
+        const result = await runBacktest('strategy-1', { start: '2026-03-02', end: '2026-03-06', initialCapital: 10000 });
+
+        // Buys at 102 and 105 (average cost 103.5), sells at 97 and 111
+        expect(result.trades).toEqual([
+            { timestamp: '2026-03-03T00:00:00Z', symbol: 'AAPL', side: 'buy', qty: 10, price: 102, value: 1020, actionId: 'action-buy' },
+            { timestamp: '2026-03-04T00:00:00Z', symbol: 'AAPL', side: 'buy', qty: 10, price: 105, value: 1050, actionId: 'action-buy' },
+            { timestamp: '2026-03-05T00:00:00Z', symbol: 'AAPL', side: 'sell', qty: 10, price: 97, value: 970, actionId: 'action-sell', realizedPnl: -65 },
+            { timestamp: '2026-03-06T00:00:00Z', symbol: 'AAPL', side: 'sell', qty: 10, price: 111, value: 1110, actionId: 'action-sell', realizedPnl: 75 },
+        ]);
+        // Cash plus the position at each bar's close
+        expect(result.equityCurve.map(point => point.equity)).toEqual([10000, 10020, 9890, 9850, 10010]);
+        expect(result.equityCurve.map(point => point.cash)).toEqual([10000, 8980, 7930, 8900, 10010]);
+    });
+
+    it('summarises the run', async () => {
+        const { summary } = await runBacktest('strategy-1', { start: '2026-03-02', end: '2026-03-06', initialCapital: 10000 });
+
+        expect(summary).toMatchObject({
+            initialCapital: 10000,
+            finalEquity: 10010,
+            tradeCount: 4,
+            winRate: 0.5, // One of the two sells closed above the 103.5 average cost
+            unfilledActions: 1, // The sell fired at the last close has no next bar to fill at
+            heldBackActions: 0,
+        });
+        expect(summary.totalReturn).toBeCloseTo(0.001, 10);
+        // 1.001 compounded over 5 days: 1.001^(365.25 / 5) - 1
+        expect(summary.cagr).toBeCloseTo(0.0757451, 6);
+        // Bar returns 0.002, -0.0129741, -0.0040445, 0.0162437: mean 0.00030628, sample stdev 0.0122769,
+        // 4 returns over 5/365.25 years = 292.2 per year, so 0.00030628 / 0.0122769 * sqrt(292.2)
+        expect(summary.sharpe).toBeCloseTo(0.42645, 4);
+        // From the 10020 peak down to 9850
+        expect(summary.maxDrawdown).toBeCloseTo(170 / 10020, 10);
+    });
+});
+
+describe('market quantities', () => {
+    it('reads them from the bars', () => {
+        const bars = [BARS[0], { ...BARS[1], vw: 103.5 }];
+        const at = (indicatorType: string) => marketQuantitiesFromBars(indicatorType, bars);
+
+        expect(at('PRICE')).toEqual({ [BARS[0].t]: { PRICE: '101.0000' }, [BARS[1].t]: { PRICE: '104.0000' } });
+        expect(at('VOLUME')[BARS[1].t]).toEqual({ VOLUME: '1000.0000' });
+        expect(at('VWAP')).toEqual({ [BARS[1].t]: { VWAP: '103.5000' } }); // The first bar has no vw
+        // 104 and 102 against the previous close of 101; the first bar has no previous close
+        expect(at('DAILY_CHANGE_PCT')).toEqual({ [BARS[1].t]: { DAILY_CHANGE_PCT: '2.9703' } });
+        expect(at('GAP_PCT')).toEqual({ [BARS[1].t]: { GAP_PCT: '0.9901' } });
+    });
+
+    it('replays a PRICE condition from the closes', async () => {
+        loadStrategy({ indicatorType: 'PRICE', parameters: {} });
+        const result = await runBacktest('strategy-1', { start: '2026-03-02', end: '2026-03-06', initialCapital: 10000 });
+
+        // PRICE is the close, like SMA(1) above
+        expect(result.trades.map(trade => [trade.side, trade.price])).toEqual([['buy', 102], ['buy', 105], ['sell', 97], ['sell', 111]]);
+    });
+
+    it('refuses daily quantities on intraday intervals', async () => {
+        loadStrategy({ indicatorType: 'GAP_PCT', parameters: {}, interval: '60min' });
+        await expect(runBacktest('strategy-1', { start: '2026-03-02', end: '2026-03-06' })).rejects.toThrow(BacktestError);
+    });
+});
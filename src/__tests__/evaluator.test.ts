@@ -0,0 +1,304 @@
+// src/__tests__/evaluator.test.ts
+/**
+ * Evaluates block trees built in memory against indicator series handed in through an IndicatorDataSource,
+ * the way backtests do, so no cache, database or broker is involved.
+ */
+import { Condition, Action } from '@prisma/client';
+import { evaluateBlockTree, EvaluationBlock, IndicatorDataSource } from '../controllers/evaluationService/evaluator';
+
+jest.mock('../utils/redisClient', () => ({
+    initRedis: jest.fn(async () => undefined),
+    getRedisClient: jest.fn(),
+    queueConnection: {},
+    indicatorQueue: {},
+    backtestQueue: {},
+}));
+
+jest.mock('@prisma/client', () => {
+    const actual = jest.requireActual('@prisma/client');
+    return { ...actual, PrismaClient: jest.fn(() => ({})) };
+});
+
+jest.mock('../services/alpacaClient', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../utils/authUtils', () => ({
+    getAlpacaMarketAuth: () => ({}),
+    ALPACA_HISTORICAL_DATA_BASE_URL: 'http://localhost',
+    ALPACA_CRYPTO_DATA_BASE_URL: 'http://localhost',
+}));
+
+const makeCondition = (id: string, fields: Partial<Condition> = {}): Condition => ({
+    id, indicatorType: 'SMA', dataSource: null, dataKey: null, symbol: 'AAPL', interval: 'daily',
+    parameters: { time_period: 5 }, operator: 'GREATER_THAN', targetValue: 10,
+    expression: null, targetExpression: null, qualifier: null, lookbackBars: null, targetIndicatorId: null,
+    createdAt: new Date(0), updatedAt: new Date(0),
+    ...fields,
+} as Condition);
+
+const makeAction = (id: string): Action => ({
+    id, actionType: 'BUY', parameters: { symbol: 'AAPL', qty: 1 }, order: 0,
+    firingMode: null, cooldownMinutes: null, cooldownBars: null,
+} as unknown as Action);
+
+const block = (
+    id: string,
+    blockType: string,
+    fields: Record<string, any> = {},
+    children: EvaluationBlock[] = []
+): EvaluationBlock => ({
+    id, strategyId: 'strategy-1', blockType, parameters: {}, parentId: null, branch: null, order: 0,
+    conditionId: null, condition: null, actionId: null, action: null,
+    ...fields,
+    children: children.map(child => ({ ...child, parentId: id })),
+} as unknown as EvaluationBlock);
+
+// CONDITION_IF on 'condition' with a BUY action on each branch
+const ifThenElse = (condition: Condition) => block('block-root', 'ROOT', {}, [
+    block('block-if', 'CONDITION_IF', { condition }, [
+        block('block-then', 'ACTION', { branch: 'THEN', action: makeAction('action-then') }),
+        block('block-else', 'ACTION', { branch: 'ELSE', action: makeAction('action-else') }),
+    ]),
+]);
+
+// Daily series of one value per day from 2026-01-01, Alpha Vantage-shaped
+const dailySeries = (values: (number | null)[], key: string = 'SMA'): Record<string, Record<string, string>> => {
+    const data: Record<string, Record<string, string>> = {};
+    values.forEach((value, index) => {
+        if (value === null) return; // A gap in the series
+        const day = new Date(Date.UTC(2026, 0, 1 + index)).toISOString().slice(0, 10);
+        data[day] = { [key]: String(value) };
+    });
+    return data;
+};
+
+// Serves the data given per condition id, and the conditions themselves for targetIndicatorId lookups
+const dataSource = (data: Record<string, any>, conditions: Condition[] = []): IndicatorDataSource => ({
+    getCondition: async (conditionId) => conditions.find(c => c.id === conditionId) ?? null,
+    getIndicatorData: async (condition) => data[condition.id] ?? null,
+});
+
+const evaluate = (rootBlock: EvaluationBlock, indicatorData: IndicatorDataSource) =>
+    evaluateBlockTree(rootBlock, { strategyId: 'strategy-1', triggeringIndicator: {}, indicatorData, verbose: false });
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('CONDITION_IF branches', () => {
+    it('runs the THEN branch when the condition holds and the ELSE branch when it does not', async () => {
+        const condition = makeCondition('condition-1');
+
+        const met = await evaluate(ifThenElse(condition), dataSource({ 'condition-1': dailySeries([9, 11]) }));
+        expect(met.actions.map(a => a.actionId)).toEqual(['action-then']);
+        expect(met.unreachedActionIds).toEqual(['action-else']);
+
+        const unmet = await evaluate(ifThenElse(condition), dataSource({ 'condition-1': dailySeries([11, 9]) }));
+        expect(unmet.actions.map(a => a.actionId)).toEqual(['action-else']);
+        expect(unmet.unreachedActionIds).toEqual(['action-then']);
+    });
+
+    it.each([
+        ['no indicator data', makeCondition('condition-1'), {}],
+        ['an empty series', makeCondition('condition-1'), { 'condition-1': {} }],
+        ['a crossover with one bar', makeCondition('condition-1', { operator: 'CROSSES_ABOVE' }), { 'condition-1': dailySeries([11]) }],
+        ['an invalid expression', makeCondition('condition-1', { indicatorType: 'EXPRESSION', expression: 'SMA(5) +' }), {}],
+    ])('runs neither branch on %s', async (_case, condition, data) => {
+        const evaluation = await evaluate(ifThenElse(condition), dataSource(data));
+
+        expect(evaluation.actions).toEqual([]);
+        expect(evaluation.unreachedActionIds).toEqual([]); // Neither branch was decided against
+        expect(evaluation.conditions[0]).toMatchObject({ conditionId: 'condition-1', met: null });
+        expect(evaluation.conditions[0].note).toEqual(expect.any(String));
+        expect(evaluation.blocks.find(b => b.blockId === 'block-if')).toMatchObject({ held: null });
+    });
+});
+
+describe('GROUP operators', () => {
+    // Operands are CONDITION_IF blocks without children: 'met' holds, 'unmet' does not, 'missing' has no data
+    const operand = { met: dailySeries([11]), unmet: dailySeries([9]) } as Record<string, any>;
+    const group = (parameters: Record<string, any>, operands: string[]) => block('block-root', 'ROOT', {}, [
+        block('block-group', 'GROUP', { parameters }, [
+            ...operands.map((kind, index) =>
+                block(`block-if-${index}`, 'CONDITION_IF', { condition: makeCondition(`condition-${index}`) })),
+            block('block-buy', 'ACTION', { action: makeAction('action-1') }),
+        ]),
+    ]);
+
+    it.each([
+        [{ operator: 'all' }, ['met', 'met'], true],
+        [{ operator: 'all' }, ['met', 'unmet'], false],
+        [{ operator: 'all' }, ['unmet', 'missing'], false],
+        [{ operator: 'all' }, ['met', 'missing'], null],
+        [{ operator: 'any' }, ['unmet', 'met'], true],
+        [{ operator: 'any' }, ['met', 'missing'], true],
+        [{ operator: 'any' }, ['unmet', 'missing'], null],
+        [{ operator: 'none' }, ['unmet', 'unmet'], true],
+        [{ operator: 'none' }, ['unmet', 'missing'], null],
+        [{ operator: 'none' }, ['met', 'missing'], false],
+        [{ operator: 'atLeast', minimum: 2 }, ['met', 'met', 'missing'], true],
+        [{ operator: 'atLeast', minimum: 2 }, ['met', 'unmet', 'missing'], null],
+        [{ operator: 'atLeast', minimum: 2 }, ['unmet', 'unmet', 'missing'], false],
+        [{ operator: 'sometimes' }, ['met'], null],
+    ])('%j over %j -> %s', async (parameters, operands, expected) => {
+        const data: Record<string, any> = {};
+        operands.forEach((kind, index) => { if (operand[kind]) data[`condition-${index}`] = operand[kind]; });
+
+        const evaluation = await evaluate(group(parameters, operands), dataSource(data));
+        expect(evaluation.blocks.find(b => b.blockId === 'block-group')!.held).toBe(expected);
+        expect(evaluation.actions.map(a => a.actionId)).toEqual(expected ? ['action-1'] : []);
+        expect(evaluation.unreachedActionIds).toEqual(expected === false ? ['action-1'] : []);
+    });
+});
+
+describe('indicator-vs-indicator crossovers', () => {
+    const fast = makeCondition('condition-fast', { operator: 'CROSSES_ABOVE', targetValue: null, targetIndicatorId: 'condition-slow' });
+    const slow = makeCondition('condition-slow', { parameters: { time_period: 20 } });
+    const crossover = (fastValues: (number | null)[], slowValues: (number | null)[], target: Condition = slow) =>
+        evaluate(ifThenElse(fast), dataSource({ 'condition-fast': dailySeries(fastValues), 'condition-slow': dailySeries(slowValues) }, [target]));
+
+    it('compares both series on the same timestamps', async () => {
+        const evaluation = await crossover([9, 11], [10, 10]);
+        expect(evaluation.conditions[0]).toMatchObject({ met: true, currentValue: 11, previousValue: 9, targetValue: 10 });
+        expect(evaluation.conditions[0].note).toBeUndefined();
+    });
+
+    it('aligns on timestamps when the target series starts later or has extra bars', async () => {
+        // The target's extra bar after the fast series' latest is ignored: only the fast series' latest bar counts
+        const evaluation = await crossover([12, 9, 11], [null, 10, 10, 20]);
+        expect(evaluation.conditions[0]).toMatchObject({ met: true, previousValue: 9, targetValue: 10 });
+    });
+
+    it('falls back to the latest earlier bar both series share when the target has a gap', async () => {
+        const evaluation = await crossover([9, 12, 11], [10, null, 10]);
+        expect(evaluation.conditions[0]).toMatchObject({ met: true, currentValue: 11, previousValue: 9, targetValue: 10 });
+        expect(evaluation.conditions[0].note).toMatch(/1 bar\(s\) missing from the target indicator/);
+    });
+
+    it.each([
+        ['the target has no bar at the latest timestamp', [9, 11], [10, null], slow],
+        ['no earlier bar is shared', [9, 11], [null, 10], slow],
+        ['the intervals differ', [9, 11], [10, 10], { ...slow, interval: 'weekly' }],
+    ])('is unevaluable when %s', async (_case, fastValues, slowValues, target) => {
+        const evaluation = await crossover(fastValues, slowValues, target);
+        expect(evaluation.conditions[0]).toMatchObject({ met: null, note: expect.any(String) });
+        expect(evaluation.actions).toEqual([]);
+    });
+});
+
+describe('qualified conditions', () => {
+    // Bars 1-7; the last four move 11 -> 13 -> 9 -> 14 -> 15
+    const SERIES = [12, 8, 11, 13, 9, 14, 15];
+    const qualified = (fields: Partial<Condition>, data: Record<string, any> = { 'condition-1': dailySeries(SERIES) }, targets: Condition[] = []) =>
+        evaluate(ifThenElse(makeCondition('condition-1', fields)), dataSource(data, targets));
+
+    it.each<[string, Partial<Condition>, boolean]>([
+        ['CONSECUTIVE 2 > 10', { qualifier: 'CONSECUTIVE', lookbackBars: 2 }, true],
+        ['CONSECUTIVE 3 > 10', { qualifier: 'CONSECUTIVE', lookbackBars: 3 }, false],
+        ['CONSECUTIVE 2 CROSSES_ABOVE 10', { qualifier: 'CONSECUTIVE', lookbackBars: 2, operator: 'CROSSES_ABOVE' }, false],
+        ['WITHIN 3 < 10', { qualifier: 'WITHIN', lookbackBars: 3, operator: 'LESS_THAN' }, true],
+        ['WITHIN 2 < 10', { qualifier: 'WITHIN', lookbackBars: 2, operator: 'LESS_THAN' }, false],
+        ['WITHIN 2 CROSSES_ABOVE 10', { qualifier: 'WITHIN', lookbackBars: 2, operator: 'CROSSES_ABOVE' }, true],
+        ['WITHIN 1 CROSSES_ABOVE 10', { qualifier: 'WITHIN', lookbackBars: 1, operator: 'CROSSES_ABOVE' }, false],
+        ['WITHIN 4 CROSSES_BELOW 10', { qualifier: 'WITHIN', lookbackBars: 4, operator: 'CROSSES_BELOW' }, true],
+        ['RISING 2', { qualifier: 'RISING', lookbackBars: 2 }, true],
+        ['RISING 3', { qualifier: 'RISING', lookbackBars: 3 }, false],
+        ['FALLING 1', { qualifier: 'FALLING', lookbackBars: 1 }, false],
+    ])('%s -> %s', async (_case, fields, expected) => {
+        const evaluation = await qualified(fields);
+        expect(evaluation.conditions[0]).toMatchObject({ met: expected, currentValue: 15 });
+        expect(evaluation.conditions[0].note).toBeUndefined();
+    });
+
+    it('is FALLING when each of the last lookbackBars values is lower than the one before', async () => {
+        const evaluation = await qualified({ qualifier: 'FALLING', lookbackBars: 2 }, { 'condition-1': dailySeries([...SERIES, 12, 10]) });
+        // previousValue is where the run started
+        expect(evaluation.conditions[0]).toMatchObject({ met: true, currentValue: 10, previousValue: 15 });
+    });
+
+    it.each<[string, Partial<Condition>, RegExp]>([
+        ['lookbackBars is missing', { qualifier: 'CONSECUTIVE', lookbackBars: null }, /CONSECUTIVE needs a positive lookbackBars/],
+        ['lookbackBars is 0', { qualifier: 'WITHIN', lookbackBars: 0 }, /WITHIN needs a positive lookbackBars/],
+        ['lookbackBars is fractional', { qualifier: 'RISING', lookbackBars: 1.5 }, /RISING needs a positive lookbackBars/],
+        ['RISING looks back over every bar', { qualifier: 'RISING', lookbackBars: 7 }, /RISING over 7 bars needs 8 values, got 7/],
+        ['CONSECUTIVE looks back further than the series', { qualifier: 'CONSECUTIVE', lookbackBars: 8 }, /CONSECUTIVE over 8 bars needs 8 values, got 7/],
+        ['a crossover WITHIN looks back over every bar', { qualifier: 'WITHIN', lookbackBars: 7, operator: 'CROSSES_ABOVE' }, /WITHIN over 7 bars needs 8 values, got 7/],
+    ])('is unevaluable when %s', async (_case, fields, note) => {
+        const evaluation = await qualified(fields);
+        expect(evaluation.conditions[0]).toMatchObject({ met: null, note: expect.stringMatching(note) });
+        expect(evaluation.actions).toEqual([]);
+    });
+
+    describe('against a target indicator with a missing bar', () => {
+        const target = makeCondition('condition-target', { parameters: { time_period: 20 } });
+        // Flat at 10 with no value on bar 6
+        const data = { 'condition-1': dailySeries(SERIES), 'condition-target': dailySeries([10, 10, 10, 10, 10, null, 10]) };
+
+        it.each<[string, Partial<Condition>, boolean]>([
+            ['CONSECUTIVE 2 > target', { qualifier: 'CONSECUTIVE', lookbackBars: 2 }, false], // 15 > 10, but bar 6 counts as not met
+            ['WITHIN 2 > target', { qualifier: 'WITHIN', lookbackBars: 2 }, true], // Bar 7 still holds
+            ['WITHIN 2 CROSSES_ABOVE target', { qualifier: 'WITHIN', lookbackBars: 2, operator: 'CROSSES_ABOVE' }, false], // 9 -> 14 spans the gap
+        ])('counts the missing bar as not met: %s -> %s', async (_case, fields, expected) => {
+            const evaluation = await qualified({ ...fields, targetValue: null, targetIndicatorId: target.id }, data, [target]);
+            expect(evaluation.conditions[0]).toMatchObject({ met: expected, targetValue: 10 });
+            expect(evaluation.conditions[0].note).toMatch(/no value on \d of the last 2 bars, counted as not met/);
+        });
+    });
+});
+
+describe('stored block parameters', () => {
+    const rebalance = { ...makeAction('action-rebalance'), actionType: 'REBALANCE', parameters: {} } as Action;
+    const asset = (id: string, parameters: any) => block(id, 'ASSET', { parameters });
+
+    it('fans an action out over valid ASSET blocks', async () => {
+        const root = block('block-root', 'ROOT', {}, [
+            block('block-buy', 'ACTION', { action: makeAction('action-1') }, [
+                asset('block-aapl', { symbol: 'AAPL' }), asset('block-msft', { symbol: 'MSFT' }),
+            ]),
+        ]);
+        const evaluation = await evaluate(root, dataSource({}));
+        expect(evaluation.actions.map(a => a.parameters.symbol)).toEqual(['AAPL', 'MSFT']);
+    });
+
+    it('does not queue an action whose ASSET or FILTER children have invalid parameters', async () => {
+        const root = block('block-root', 'ROOT', {}, [
+            block('block-buy', 'ACTION', { action: makeAction('action-1') }, [
+                asset('block-aapl', { symbol: 'AAPL' }),
+                block('block-filter', 'FILTER', { parameters: { metric: 'momentum', select: 'top' } }, [
+                    asset('block-msft', { symbol: 'MSFT' }),
+                ]),
+            ]),
+        ]);
+        const evaluation = await evaluate(root, dataSource({}));
+        expect(evaluation.actions).toEqual([]);
+        expect(evaluation.blocks.find(b => b.blockId === 'block-buy')).toMatchObject({
+            held: null, detail: { note: expect.stringMatching(/FILTER block block-filter has invalid parameters/) },
+        });
+    });
+
+    it.each([
+        ['WEIGHT parameters', { method: 'cheapest' }, { symbol: 'AAPL' }],
+        ['ASSET parameters', { method: 'equal' }, { weight: 50 }],
+    ])('skips REBALANCE when a WEIGHT block has invalid %s', async (_case, weightParameters, assetParameters) => {
+        const root = block('block-root', 'ROOT', {}, [
+            block('block-weight-ok', 'WEIGHT', { parameters: { method: 'equal' } }, [asset('block-msft', { symbol: 'MSFT' })]),
+            block('block-weight', 'WEIGHT', { parameters: weightParameters }, [asset('block-asset', assetParameters)]),
+            block('block-rebalance', 'ACTION', { action: rebalance }),
+        ]);
+        const evaluation = await evaluate(root, dataSource({}));
+        expect(evaluation.blocks.find(b => b.blockId === 'block-weight')).toMatchObject({ held: null });
+        expect(evaluation.actions).toEqual([]);
+    });
+
+    it('treats a GROUP with invalid parameters as unevaluable', async () => {
+        const root = block('block-root', 'ROOT', {}, [
+            block('block-group', 'GROUP', { parameters: { operator: 'atLeast', minimum: 0 } }, [
+                block('block-if', 'CONDITION_IF', { condition: makeCondition('condition-1') }),
+                block('block-buy', 'ACTION', { action: makeAction('action-1') }),
+            ]),
+        ]);
+        const evaluation = await evaluate(root, dataSource({ 'condition-1': dailySeries([11]) }));
+        expect(evaluation.blocks.find(b => b.blockId === 'block-group')).toMatchObject({ held: null });
+        expect(evaluation.actions).toEqual([]);
+    });
+});
@@ -0,0 +1,111 @@
+// src/__tests__/expression.test.ts
+import {
+    parseExpression, evaluateExpression, collectReferences, ExpressionError
+} from '../controllers/evaluationService/expression';
+
+jest.mock('../utils/redisClient', () => ({
+    initRedis: jest.fn(async () => undefined),
+    getRedisClient: jest.fn(),
+    queueConnection: {},
+    indicatorQueue: {},
+    backtestQueue: {},
+}));
+
+jest.mock('../utils/authUtils', () => ({
+    getAlpacaMarketAuth: () => ({}),
+    ALPACA_HISTORICAL_DATA_BASE_URL: 'http://localhost',
+    ALPACA_CRYPTO_DATA_BASE_URL: 'http://localhost',
+}));
+
+// Value of an expression, with reference values given by reference key
+const valueOf = (text: string, values: Record<string, number> = {}): number =>
+    evaluateExpression(parseExpression(text), new Map(Object.entries(values)));
+
+describe('expression arithmetic', () => {
+    it.each([
+        ['1 + 2 * 3', 7],
+        ['2 * 3 + 4 * 5', 26],
+        ['1 + 6 / 3', 3],
+        ['10 - 4 - 3', 3],
+        ['2 - 3 + 4', 3],
+        ['100 / 10 / 5', 2],
+        ['2 * 6 / 3', 4],
+    ])('applies precedence and left associativity: %s = %d', (text, expected) => {
+        expect(valueOf(text)).toBe(expected);
+    });
+
+    it.each([
+        ['-2 * 3', -6],
+        ['2 * -3', -6],
+        ['4 - -2', 6],
+        ['--2', 2],
+        ['-(1 + 2)', -3],
+        ['-.5 + 1', 0.5],
+    ])('negates with unary minus: %s = %d', (text, expected) => {
+        expect(valueOf(text)).toBe(expected);
+    });
+
+    it.each([
+        ['(1 + 2) * 3', 9],
+        ['((1 + 2) * (3 + 4)) / 7', 3],
+        ['(((4)))', 4],
+        ['10 - (4 - 3)', 9],
+    ])('groups with parentheses: %s = %d', (text, expected) => {
+        expect(valueOf(text)).toBe(expected);
+    });
+
+    it('gives a non-finite value on division by zero', () => {
+        expect(valueOf('1 / 0')).toBe(Infinity);
+        expect(valueOf('-1 / (2 - 2)')).toBe(-Infinity);
+        expect(valueOf('0 / 0')).toBeNaN();
+    });
+});
+
+describe('expression references', () => {
+    it('reads the value of each reference by its key', () => {
+        const node = parseExpression('(close - SMA(20)) / ATR(14, MSFT)');
+        const [close, sma, atr] = collectReferences(node);
+
+        expect(close).toMatchObject({ indicatorType: 'BAR', dataKey: 'close', symbol: null });
+        expect(sma).toMatchObject({ indicatorType: 'SMA', parameters: { time_period: 20, series_type: 'close' }, symbol: null });
+        expect(atr).toMatchObject({ indicatorType: 'ATR', parameters: { time_period: 14 }, symbol: 'MSFT' });
+        expect(evaluateExpression(node, new Map([[close.key, 110], [sma.key, 100], [atr.key, 5]]))).toBe(2);
+    });
+
+    it('reads a multi-output indicator through its quoted output key', () => {
+        const [bands] = collectReferences(parseExpression('BBANDS(20, 2, 1, "Real Lower Band")'));
+        expect(bands).toMatchObject({ parameters: { time_period: 20, nbdevup: 2, nbdevdn: 1 }, dataKey: 'Real Lower Band' });
+    });
+
+    it('counts a repeated reference once', () => {
+        expect(collectReferences(parseExpression('SMA(20) - SMA(20) * 2'))).toHaveLength(1);
+    });
+
+    it('gives NaN for a reference without a value', () => {
+        const node = parseExpression('RSI(14) + SMA(20)');
+        const [rsi] = collectReferences(node);
+        expect(evaluateExpression(node, new Map([[rsi.key, 50]]))).toBeNaN();
+    });
+});
+
+describe('malformed expressions', () => {
+    it.each([
+        ['', /Expression is empty/],
+        ['1 +', /Unexpected 'end of expression' at position 4/],
+        ['(1 + 2', /Expected '\)' but found 'end of expression' at position 7/],
+        ['1 + 2)', /Unexpected '\)' at position 6/],
+        ['1 2', /Unexpected '2' at position 3/],
+        ['* 2', /Unexpected '\*' at position 1/],
+        ['1 $ 2', /Unexpected '\$' at position 3/],
+        ['SMA(20', /Expected '\)' but found 'end of expression'/],
+        ['SMA(,)', /Expected an argument but found ','/],
+        ["SMA('AAPL)", /Unterminated string at position 5/],
+        ['SMA(20, 30)', /SMA takes at most 1 numeric argument/],
+        ['SMA(20, AAPL, MSFT)', /SMA has more than one symbol/],
+        ['BBANDS(20)', /BBANDS returns several series/],
+        ['EXPRESSION(1)', /EXPRESSION cannot be referenced/],
+    ])('rejects %j', (text, message) => {
+        expect(() => parseExpression(text)).toThrow(ExpressionError);
+        expect(() => parseExpression(text)).toThrow(message);
+    });
+});
@@ -0,0 +1,210 @@
+// src/__tests__/firingModes.test.ts
+/**
+ * Runs applyFiringModes and recordFirings over a sequence of evaluations, the way evaluateStrategy calls them,
+ * against an in-memory ActionFiringState table that reads the Prisma where clauses the module writes.
+ */
+import { PrismaClient } from '@prisma/client';
+import { applyFiringModes, recordFirings, createReplayFiringModes } from '../controllers/evaluationService/firingModes';
+import { ActionDispatchEntry } from '../controllers/evaluationService/evaluator';
+
+jest.mock('@prisma/client', () => {
+    const actual = jest.requireActual('@prisma/client');
+    const fake = {
+        strategy: { findUnique: jest.fn() },
+        action: { findMany: jest.fn() },
+        actionFiringState: { findUnique: jest.fn(), upsert: jest.fn(), updateMany: jest.fn() },
+    };
+    return { ...actual, PrismaClient: jest.fn(() => fake) };
+});
+
+const db = new PrismaClient() as any;
+
+const STRATEGY_ID = 'strategy-1';
+const ACTION_ID = 'action-1';
+
+// ActionFiringState rows by actionKey
+const states = new Map<string, Record<string, any>>();
+
+// Whether a row matches a where clause, for the filters firingModes uses
+const matches = (row: Record<string, any>, where: Record<string, any>): boolean =>
+    Object.entries(where).every(([field, filter]) => {
+        if (field === 'OR') return filter.some((clause: any) => matches(row, clause));
+        if (field === 'AND') return filter.every((clause: any) => matches(row, clause));
+        const value = row[field];
+        if (filter === null || typeof filter !== 'object') return value === filter;
+        if ('in' in filter) return filter.in.includes(value);
+        if ('notIn' in filter) return !filter.notIn.includes(value);
+        if ('startsWith' in filter) return typeof value === 'string' && value.startsWith(filter.startsWith);
+        if ('not' in filter) return value !== filter.not;
+        if ('lte' in filter) return value !== null && value <= filter.lte;
+        if ('gte' in filter) return value >= filter.gte;
+        throw new Error(`Unsupported filter on ${field}: ${JSON.stringify(filter)}`);
+    });
+
+const applyData = (row: Record<string, any>, data: Record<string, any>) => {
+    for (const [field, value] of Object.entries(data)) {
+        row[field] = value !== null && typeof value === 'object' && 'increment' in value ? row[field] + value.increment : value;
+    }
+};
+
+// The strategy's firing settings; the action has none of its own
+const useFiringMode = (firingMode: string, cooldown: { cooldownMinutes?: number; cooldownBars?: number } = {}) => {
+    db.strategy.findUnique.mockResolvedValue({ firingMode, cooldownMinutes: null, cooldownBars: null, ...cooldown });
+};
+
+const entry = (symbol: string = 'AAPL'): ActionDispatchEntry => ({
+    actionId: ACTION_ID, blockId: 'block-buy', actionType: 'BUY', parameters: { symbol, qty: 1 }, messageId: null,
+});
+
+// The indicator update that triggered an evaluation
+const update = (cacheKey: string, lastRefreshed: string) => ({ cacheKey, lastRefreshed });
+const SMA = (day: number) => update('indicator:SMA', `2026-03-0${day}`);
+
+/**
+ * One live evaluation: 'reached' are the actions it reached, 'unreached' the ones a condition decided against.
+ * The actions allowed to fire are published (unless 'publishFails'), then recorded. Returns the published symbols.
+ */
+const evaluation = async (
+    reached: ActionDispatchEntry[],
+    unreached: string[],
+    trigger: Record<string, any> = SMA(1),
+    publishFails = false
+): Promise<string[]> => {
+    const gated = await applyFiringModes(STRATEGY_ID, trigger, reached, unreached, { persist: true });
+    const published = gated.map(action =>
+        action.suppressedReason || publishFails ? action : { ...action, messageId: '1-0' });
+    await recordFirings(STRATEGY_ID, trigger, published);
+    return published.filter(action => action.messageId !== null).map(action => action.parameters.symbol);
+};
+
+// Evaluations whose condition held, did not hold, or could not be evaluated
+const held = (trigger?: Record<string, any>) => evaluation([entry()], [], trigger);
+const notHeld = (trigger?: Record<string, any>) => evaluation([], [ACTION_ID], trigger);
+const unevaluable = (trigger?: Record<string, any>) => evaluation([], [], trigger);
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    states.clear();
+    db.action.findMany.mockResolvedValue([]);
+    db.actionFiringState.findUnique.mockImplementation(async ({ where }: any) =>
+        states.get(where.strategyId_actionKey.actionKey) ?? null);
+    db.actionFiringState.upsert.mockImplementation(async ({ where, create }: any) => {
+        const actionKey = where.strategyId_actionKey.actionKey;
+        if (!states.has(actionKey)) {
+            states.set(actionKey, {
+                reached: false, lastFiredAt: null, barsSinceFired: 0, barSource: null, lastBarTime: null, ...create,
+            });
+        }
+        return states.get(actionKey);
+    });
+    db.actionFiringState.updateMany.mockImplementation(async ({ where, data }: any) => {
+        const rows = [...states.values()].filter(row => matches(row, where));
+        rows.forEach(row => applyData(row, data));
+        return { count: rows.length };
+    });
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('ON_TRANSITION', () => {
+    beforeEach(() => useFiringMode('ON_TRANSITION'));
+
+    it('fires on each false -> true transition only', async () => {
+        const fired: boolean[] = [];
+        for (const step of [notHeld, held, held, notHeld, held]) {
+            fired.push((await step()).length > 0);
+        }
+        expect(fired).toEqual([false, true, false, false, true]);
+    });
+
+    it('is not re-armed by an evaluation whose condition could not be evaluated', async () => {
+        expect(await held()).toEqual(['AAPL']);
+        expect(await unevaluable()).toEqual([]);
+        expect(states.get(`${ACTION_ID}:AAPL`)).toMatchObject({ reached: true });
+        expect(await held()).toEqual([]);
+    });
+
+    it('keeps a state per symbol of a fanned-out action', async () => {
+        expect(await evaluation([entry('AAPL'), entry('MSFT')], [])).toEqual(['AAPL', 'MSFT']);
+        // The action is still reached for AAPL; MSFT is no longer selected and re-arms
+        expect(await evaluation([entry('AAPL')], [])).toEqual([]);
+        expect(states.get(`${ACTION_ID}:MSFT`)).toMatchObject({ reached: false });
+        expect(await evaluation([entry('AAPL'), entry('MSFT')], [])).toEqual(['MSFT']);
+        expect([...states.keys()].sort()).toEqual([`${ACTION_ID}:AAPL`, `${ACTION_ID}:MSFT`]);
+    });
+});
+
+describe('COOLDOWN', () => {
+    it('holds the action back for cooldownMinutes after it fired', async () => {
+        useFiringMode('COOLDOWN', { cooldownMinutes: 30 });
+        const at = (minutes: number) => jest.setSystemTime(new Date(Date.UTC(2026, 2, 2, 15, minutes)));
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+
+        at(0);
+        expect(await held()).toEqual(['AAPL']);
+        at(10);
+        expect(await held()).toEqual([]);
+        at(29);
+        expect(await held()).toEqual([]);
+        at(30);
+        expect(await held()).toEqual(['AAPL']);
+        at(31);
+        expect(await held()).toEqual([]);
+    });
+
+    it('counts cooldownBars only from updates of the indicator that fired the action', async () => {
+        useFiringMode('COOLDOWN', { cooldownBars: 2 });
+        const RSI = (day: number) => update('indicator:RSI', `2026-03-0${day}`);
+
+        expect(await held(SMA(1))).toEqual(['AAPL']);
+        expect(await held(RSI(2))).toEqual([]); // Another indicator's bar
+        expect(await held(SMA(2))).toEqual([]); // 1 bar
+        expect(await held(RSI(3))).toEqual([]);
+        expect(await held(SMA(2))).toEqual([]); // Same bar refreshed again, still 1
+        expect(states.get(`${ACTION_ID}:AAPL`)).toMatchObject({ barsSinceFired: 1, barSource: 'indicator:SMA' });
+        expect(await held(SMA(3))).toEqual(['AAPL']); // 2 bars
+        expect(states.get(`${ACTION_ID}:AAPL`)).toMatchObject({ barsSinceFired: 0, lastBarTime: '2026-03-03' });
+    });
+});
+
+describe('recordFirings', () => {
+    it('does not record an action whose publishing failed', async () => {
+        useFiringMode('ON_TRANSITION');
+
+        expect(await evaluation([entry()], [], SMA(1), true)).toEqual([]);
+        expect(db.actionFiringState.upsert).not.toHaveBeenCalled();
+        expect(states.size).toBe(0);
+        // The retried update fires it
+        expect(await held()).toEqual(['AAPL']);
+    });
+
+    it('keeps no state for EVERY_EVALUATION actions', async () => {
+        useFiringMode('EVERY_EVALUATION');
+
+        expect(await held()).toEqual(['AAPL']);
+        expect(await held()).toEqual(['AAPL']);
+        expect(db.actionFiringState.upsert).not.toHaveBeenCalled();
+    });
+});
+
+describe('createReplayFiringModes', () => {
+    it('re-arms ON_TRANSITION actions only when their condition evaluated false', async () => {
+        useFiringMode('ON_TRANSITION');
+        const gate = await createReplayFiringModes(STRATEGY_ID, [ACTION_ID]);
+        const fires = (reached: ActionDispatchEntry[], unreached: string[]) =>
+            gate(reached, new Date(), unreached).some(action => !action.suppressedReason);
+
+        // held, unevaluable, held, not held, held
+        expect([
+            fires([entry()], []), fires([], []), fires([entry()], []), fires([], [ACTION_ID]), fires([entry()], []),
+        ]).toEqual([true, false, false, false, true]);
+        expect(db.actionFiringState.updateMany).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,29 @@
+// src/__tests__/localIndicators.test.ts
+import { computeLocalIndicator } from '../controllers/technicalIndicators/localIndicators';
+import { AlpacaBar } from '../services/marketDataService';
+
+const barsOf = (closes: number[]): AlpacaBar[] => closes.map((c, index) => ({
+    t: new Date(Date.UTC(2026, 0, 1 + index)).toISOString(), o: c, h: c, l: c, c, v: 1000,
+}));
+
+describe('BBANDS', () => {
+    // Closes 1, 2, 3: middle band 2, population standard deviation sqrt(2/3) = 0.81650
+    const bars = barsOf([1, 2, 3]);
+    const latest = (parameters: Record<string, any>) => computeLocalIndicator('BBANDS', parameters, bars)[bars[2].t];
+
+    it('places both bands nbdevup/nbdevdn standard deviations from the middle band', () => {
+        expect(latest({ time_period: 3, nbdevup: 2, nbdevdn: 1 })).toEqual({
+            'Real Upper Band': '3.6330',
+            'Real Middle Band': '2.0000',
+            'Real Lower Band': '1.1835',
+        });
+    });
+
+    it('defaults both to 2 standard deviations', () => {
+        expect(latest({ time_period: 3 })).toEqual({
+            'Real Upper Band': '3.6330',
+            'Real Middle Band': '2.0000',
+            'Real Lower Band': '0.3670',
+        });
+    });
+});
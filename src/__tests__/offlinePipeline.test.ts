@@ -0,0 +1,307 @@
+// src/__tests__/offlinePipeline.test.ts
+/**
+ * Runs the scheduler -> evaluator -> action pipeline offline: indicator data comes from the FIXTURE provider
+ * (fixtures/BTC-USD_daily.csv), Redis, Prisma and Alpaca are in-memory fakes. Stream messages are handed from
+ * one stage to the next exactly as they were published, so serialization and parsing are exercised as well.
+ */
+import path from 'path';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getRedisClient } from '../utils/redisClient';
+import alpaca from '../services/alpacaClient';
+import { getTechnicalActiveIndicators } from '../controllers/scheduler/technicalStrategySource';
+import { runIndicatorFetch } from '../controllers/scheduler/fetchOrchestrator';
+import { STREAM_KEY, ACTION_STREAM_KEY } from '../controllers/scheduler/redisStream';
+import { handleIndicatorUpdate } from '../controllers/evaluationService/consumer';
+import { handleActionMessage } from '../controllers/actionService/consumer';
+import { PoisonMessageError } from '../controllers/scheduler/streamRetry';
+
+jest.mock('../utils/redisClient', () => {
+    const values = new Map<string, string>();
+    const streams = new Map<string, { id: string; message: Record<string, string> }[]>();
+    let sequence = 0;
+    const client = {
+        isReady: true,
+        values,
+        streams,
+        get: jest.fn(async (key: string) => values.get(key) ?? null),
+        set: jest.fn(async (key: string, value: string) => { values.set(key, value); return 'OK'; }),
+        xAdd: jest.fn(async (stream: string, _id: string, message: Record<string, string>) => {
+            const id = `${++sequence}-0`;
+            streams.set(stream, [...(streams.get(stream) ?? []), { id, message }]);
+            return id;
+        }),
+    };
+    return {
+        initRedis: jest.fn(async () => undefined),
+        getRedisClient: () => client,
+        queueConnection: {},
+        indicatorQueue: {},
+        backtestQueue: {},
+    };
+});
+
+// Every module creates its own PrismaClient; they all get the same fake
+jest.mock('@prisma/client', () => {
+    const actual = jest.requireActual('@prisma/client');
+    const fake = {
+        condition: { findMany: jest.fn(), findUnique: jest.fn() },
+        strategy: { findUnique: jest.fn() },
+        strategyBlock: { findMany: jest.fn() },
+        action: { findMany: jest.fn() },
+        actionFiringState: { findUnique: jest.fn(), upsert: jest.fn(), updateMany: jest.fn() },
+        strategyRun: { create: jest.fn() },
+        actionExecution: { create: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn() },
+        strategyOrder: { upsert: jest.fn() },
+    };
+    return { ...actual, PrismaClient: jest.fn(() => fake) };
+});
+
+jest.mock('../services/alpacaClient', () => ({
+    __esModule: true,
+    default: { createOrder: jest.fn(), getOrderByClientId: jest.fn() },
+}));
+
+jest.mock('../utils/authUtils', () => ({
+    getAlpacaMarketAuth: () => ({}),
+    ALPACA_HISTORICAL_DATA_BASE_URL: 'http://localhost',
+    ALPACA_CRYPTO_DATA_BASE_URL: 'http://localhost',
+}));
+
+const db = new PrismaClient() as any;
+const redis = getRedisClient() as any;
+const broker = alpaca as any;
+
+const STRATEGY_ID = 'strategy-1';
+const ACTION_ID = 'action-1';
+
+// SMA(5) of BTC/USD daily closes above targetValue -> BUY 0.01 BTC/USD
+const makeStrategy = (targetValue: number, firingMode: string) => {
+    const strategy = {
+        id: STRATEGY_ID, isActive: true, rootBlockId: 'block-root',
+        firingMode, cooldownMinutes: null, cooldownBars: null,
+    };
+    const condition = {
+        id: 'condition-1', indicatorType: 'SMA', dataSource: 'FIXTURE', dataKey: null, symbol: 'BTC/USD', interval: 'daily',
+        parameters: { time_period: 5, series_type: 'close' }, operator: 'GREATER_THAN', targetValue,
+        expression: null, targetExpression: null, qualifier: null, lookbackBars: null, targetIndicatorId: null,
+    };
+    const action = {
+        id: ACTION_ID, actionType: 'BUY', parameters: { symbol: 'BTC/USD', qty: 0.01 },
+        order: 0, firingMode: null, cooldownMinutes: null, cooldownBars: null,
+    };
+    const block = (id: string, blockType: string, parentId: string | null, links: Record<string, any> = {}) => ({
+        id, strategyId: STRATEGY_ID, blockType, parameters: {}, parentId, branch: null, order: 0,
+        conditionId: null, condition: null, actionId: null, action: null, ...links,
+    });
+    const blocks = [
+        block('block-root', 'ROOT', null),
+        block('block-if', 'CONDITION_IF', 'block-root', { conditionId: condition.id, condition }),
+        block('block-buy', 'ACTION', 'block-if', { actionId: action.id, action }),
+    ];
+    return { strategy, condition, action, blocks };
+};
+
+const loadStrategy = (targetValue: number, firingMode: string = 'EVERY_EVALUATION') => {
+    const { strategy, condition, action, blocks } = makeStrategy(targetValue, firingMode);
+    const linkedCondition = { ...condition, strategyBlocks: [{ strategyId: STRATEGY_ID, strategy: { isActive: true } }] };
+
+    db.condition.findMany.mockImplementation(async ({ where }: any) =>
+        where.indicatorType === 'EXPRESSION' ? [] : [linkedCondition]);
+    db.condition.findUnique.mockImplementation(async ({ where }: any) => (where.id === condition.id ? condition : null));
+    db.strategy.findUnique.mockResolvedValue(strategy);
+    db.strategyBlock.findMany.mockResolvedValue(blocks);
+    db.action.findMany.mockResolvedValue([action]);
+};
+
+// ActionExecution rows by idempotency key, refusing duplicates like the unique index does
+const executions = new Map<string, any>();
+
+const runScheduledFetches = async () => {
+    const indicators = await getTechnicalActiveIndicators();
+    return Promise.all(indicators.map(indicator => runIndicatorFetch(indicator)));
+};
+
+const streamMessages = (stream: string) => redis.streams.get(stream) ?? [];
+
+beforeAll(() => {
+    process.env.INDICATOR_FIXTURE_DIR = path.resolve(__dirname, '../../fixtures');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+    redis.values.clear();
+    redis.streams.clear();
+    executions.clear();
+    jest.clearAllMocks();
+
+    db.strategyRun.create.mockResolvedValue({});
+    db.actionFiringState.findUnique.mockResolvedValue(null);
+    db.actionFiringState.upsert.mockResolvedValue({});
+    db.actionFiringState.updateMany.mockResolvedValue({ count: 1 });
+    db.actionExecution.create.mockImplementation(async ({ data }: any) => {
+        if (executions.has(data.idempotencyKey)) {
+            throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+        }
+        const execution = { id: `execution-${executions.size + 1}`, attempts: 1, error: null, ...data };
+        executions.set(data.idempotencyKey, execution);
+        return execution;
+    });
+    db.actionExecution.findUniqueOrThrow.mockImplementation(async ({ where }: any) => executions.get(where.idempotencyKey));
+    db.actionExecution.update.mockImplementation(async ({ where, data }: any) => {
+        const execution = [...executions.values()].find(row => row.id === where.id);
+        return Object.assign(execution, data);
+    });
+    db.strategyOrder.upsert.mockImplementation(async ({ create }: any) => ({ id: 'strategy-order-1', ...create }));
+    broker.createOrder.mockImplementation(async (order: any) => ({
+        id: 'alpaca-order-1', status: 'accepted', client_order_id: order.client_order_id,
+    }));
+});
+
+describe('offline pipeline', () => {
+    it('fetches the fixture, evaluates the strategy and places the order it triggers', async () => {
+        loadStrategy(60000);
+
+        expect(await runScheduledFetches()).toEqual(['fetched']);
+        const [update] = streamMessages(STREAM_KEY);
+        expect(update.message).toMatchObject({
+            indicatorType: 'SMA', symbol: 'BTC/USD', interval: 'daily', dataSource: 'FIXTURE',
+            lastRefreshed: '2026-09-30T00:00:00.000Z',
+        });
+
+        await handleIndicatorUpdate(update.id, update.message);
+        const [actionMessage] = streamMessages(ACTION_STREAM_KEY);
+        expect(actionMessage.message).toMatchObject({ strategyId: STRATEGY_ID, actionId: ACTION_ID, actionType: 'BUY' });
+        expect(JSON.parse(actionMessage.message.parameters)).toEqual({ symbol: 'BTC/USD', qty: 0.01 });
+        expect(db.strategyRun.create.mock.calls[0][0].data.status).toBe('COMPLETED');
+
+        await handleActionMessage(actionMessage.id, actionMessage.message);
+        expect(broker.createOrder).toHaveBeenCalledTimes(1);
+        const [execution] = executions.values();
+        expect(broker.createOrder.mock.calls[0][0]).toMatchObject({
+            symbol: 'BTC/USD', side: 'buy', qty: 0.01, time_in_force: 'gtc', client_order_id: execution.idempotencyKey,
+        });
+        expect(db.strategyOrder.upsert.mock.calls[0][0].create).toMatchObject({
+            strategyId: STRATEGY_ID, actionId: ACTION_ID, alpacaOrderId: 'alpaca-order-1', symbol: 'BTC/USD',
+        });
+        expect(execution.status).toBe('COMPLETED');
+    });
+
+    it('does not place the order again when the action message is redelivered', async () => {
+        loadStrategy(60000);
+        await runScheduledFetches();
+        const [update] = streamMessages(STREAM_KEY);
+        await handleIndicatorUpdate(update.id, update.message);
+        const [actionMessage] = streamMessages(ACTION_STREAM_KEY);
+
+        await handleActionMessage(actionMessage.id, actionMessage.message);
+        await handleActionMessage(actionMessage.id, actionMessage.message);
+        expect(broker.createOrder).toHaveBeenCalledTimes(1);
+    });
+
+    it('places one order per symbol of a fanned-out action', async () => {
+        const triggeringIndicator = JSON.stringify({ symbol: 'BTC/USD', lastRefreshed: '2026-09-30T00:00:00.000Z' });
+        const message = (symbol: string) => ({
+            strategyId: STRATEGY_ID, actionId: ACTION_ID, actionType: 'BUY',
+            parameters: JSON.stringify({ symbol, qty: 1 }), triggeringIndicator,
+        });
+
+        await handleActionMessage('1-0', message('AAPL'));
+        await handleActionMessage('2-0', message('MSFT'));
+        const clientOrderIds = broker.createOrder.mock.calls.map(([order]: any[]) => order.client_order_id);
+        expect(clientOrderIds).toHaveLength(2);
+        expect(new Set(clientOrderIds).size).toBe(2);
+    });
+
+    it.each([
+        [401, false], [404, false], [500, false], [403, true], [422, true],
+    ])('dead-letters an order failing with %i as refused by Alpaca: %s', async (status, refused) => {
+        const error = Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data: {} } });
+        broker.createOrder.mockRejectedValueOnce(error);
+        const message = {
+            strategyId: STRATEGY_ID, actionId: ACTION_ID, actionType: 'BUY',
+            parameters: JSON.stringify({ symbol: 'BTC/USD', qty: 0.01 }),
+            triggeringIndicator: JSON.stringify({ lastRefreshed: '2026-09-30T00:00:00.000Z' }),
+        };
+
+        const handled = handleActionMessage('1-0', message);
+        await expect(handled).rejects.toThrow();
+        await handled.catch(failure => expect(failure instanceof PoisonMessageError).toBe(refused));
+    });
+
+    it('fails the indicator update when the triggered action cannot be published', async () => {
+        loadStrategy(60000);
+        await runScheduledFetches();
+        const [update] = streamMessages(STREAM_KEY);
+        redis.xAdd.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+        await expect(handleIndicatorUpdate(update.id, update.message)).rejects.toThrow(/Evaluation failed for 1 of 1 strategies/);
+        const run = db.strategyRun.create.mock.calls[0][0].data;
+        expect(run.status).toBe('FAILED');
+        expect(run.actionDispatches.create[0]).toMatchObject({ actionId: ACTION_ID, streamMessageId: null });
+    });
+
+    it('records an ON_TRANSITION firing only once its action is published', async () => {
+        loadStrategy(60000, 'ON_TRANSITION');
+        await runScheduledFetches();
+        const [update] = streamMessages(STREAM_KEY);
+        redis.xAdd.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+        await expect(handleIndicatorUpdate(update.id, update.message)).rejects.toThrow();
+        expect(db.actionFiringState.upsert).not.toHaveBeenCalled();
+
+        // The retried update fires the action again and records it
+        await handleIndicatorUpdate(update.id, update.message);
+        expect(streamMessages(ACTION_STREAM_KEY)).toHaveLength(1);
+        expect(db.actionFiringState.updateMany).toHaveBeenCalledWith({
+            where: { strategyId: STRATEGY_ID, actionKey: `${ACTION_ID}:BTC/USD`, reached: false },
+            data: expect.objectContaining({ reached: true, barsSinceFired: 0, barSource: update.message.cacheKey }),
+        });
+    });
+
+    it('fetches a multi-output indicator once for the conditions reading its different series', async () => {
+        const { strategy, condition, action } = makeStrategy(0, 'EVERY_EVALUATION');
+        const band = (id: string, dataKey: string) => ({
+            ...condition, id, indicatorType: 'BBANDS', dataKey,
+            strategyBlocks: [{ strategyId: STRATEGY_ID, strategy: { isActive: true } }],
+        });
+        const upper = band('condition-upper', 'Real Upper Band');
+        const lower = band('condition-lower', 'Real Lower Band');
+        const block = (id: string, blockType: string, parentId: string | null, links: Record<string, any> = {}) => ({
+            id, strategyId: STRATEGY_ID, blockType, parameters: {}, parentId, branch: null, order: 0,
+            conditionId: null, condition: null, actionId: null, action: null, ...links,
+        });
+        db.condition.findMany.mockImplementation(async ({ where }: any) =>
+            where.indicatorType === 'EXPRESSION' ? [] : [upper, lower]);
+        db.strategy.findUnique.mockResolvedValue(strategy);
+        db.strategyBlock.findMany.mockResolvedValue([
+            block('block-root', 'ROOT', null),
+            block('block-upper', 'CONDITION_IF', 'block-root', { conditionId: upper.id, condition: upper }),
+            block('block-lower', 'CONDITION_IF', 'block-upper', { conditionId: lower.id, condition: lower }),
+            block('block-buy', 'ACTION', 'block-lower', { actionId: action.id, action }),
+        ]);
+        db.action.findMany.mockResolvedValue([action]);
+
+        expect(await runScheduledFetches()).toEqual(['fetched']);
+        const [update] = streamMessages(STREAM_KEY);
+        expect(update.message.cacheKey).not.toMatch(/dataKey/);
+
+        await handleIndicatorUpdate(update.id, update.message);
+        const conditionResults = db.strategyRun.create.mock.calls[0][0].data.conditionResults.create;
+        expect(conditionResults.map((result: any) => [result.conditionId, result.met])).toEqual([
+            ['condition-upper', true], ['condition-lower', true],
+        ]);
+        expect(conditionResults[0].currentValue).toBeGreaterThan(conditionResults[1].currentValue);
+        expect(streamMessages(ACTION_STREAM_KEY)).toHaveLength(1);
+    });
+
+    it('publishes no action when the condition does not hold', async () => {
+        loadStrategy(70000);
+        await runScheduledFetches();
+        const [update] = streamMessages(STREAM_KEY);
+
+        await handleIndicatorUpdate(update.id, update.message);
+        expect(streamMessages(ACTION_STREAM_KEY)).toEqual([]);
+        expect(db.strategyRun.create.mock.calls[0][0].data.conditionResults.create[0]).toMatchObject({ met: false });
+    });
+});
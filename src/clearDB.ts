@@ -5,6 +5,8 @@ const prisma = new PrismaClient();
 async function clearDatabase() {
   try {
     // Delete all records from each table
+    await prisma.strategyRun.deleteMany({}); // Condition results and dispatches cascade
+    await prisma.strategyOrder.deleteMany({});
     await prisma.strategyBlock.deleteMany({}); // Delete blocks first
     await prisma.action.deleteMany({});       // Actions can be deleted
     await prisma.condition.deleteMany({});    // Conditions can be deleted
@@ -0,0 +1,92 @@
+// src/controllers/actionService/actionExecution.ts
+/**
+ * Idempotent action execution. A logical action is one strategy action fired for one trigger and, when the action is
+ * fanned out over ASSET/FILTER blocks, one symbol; its idempotency key hashes the strategy id, action id, symbol and
+ * trigger time (the triggering indicator's lastRefreshed bar). The key is stored in an ActionExecution row before
+ * anything is executed and is the prefix of every client_order_id the execution sends to Alpaca, so:
+ *  - a redelivered, reclaimed or replayed message for a COMPLETED execution is refused;
+ *  - a retry of an execution that failed or crashed half-way re-sends the same client_order_ids, which Alpaca
+ *    refuses for the orders that were already placed (see placeOrder).
+ */
+import { createHash } from 'crypto';
+import { ActionExecution, ActionType, Prisma } from '@prisma/client';
+import prisma from '../../utils/prisma/prisma';
+
+export interface ActionExecutionRequest {
+    strategyId: string;
+    actionId?: string;
+    symbol?: string; // parameters.symbol, which fanned-out copies of one action differ by
+    actionType: ActionType;
+    triggeringIndicator: Record<string, any>;
+    streamMessageId: string;
+}
+
+// When the trigger happened; the stream message id only identifies redeliveries of the same message
+const getTriggerTime = (triggeringIndicator: Record<string, any>, streamMessageId: string): string =>
+    triggeringIndicator.lastRefreshed ?? triggeringIndicator.fetchTime ?? `message:${streamMessageId}`;
+
+// Actions without a symbol keep the key they had before symbols were part of it
+export const deriveIdempotencyKey = (
+    strategyId: string,
+    actionId: string | undefined,
+    symbol: string | undefined,
+    triggerTime: string
+): string => {
+    const identity = `${strategyId}|${actionId ?? ''}|${triggerTime}${symbol ? `|${symbol}` : ''}`;
+    return createHash('sha256').update(identity).digest('hex').slice(0, 32);
+};
+
+/**
+ * Records the start of an execution and returns it, or returns null when this logical action already completed.
+ * An execution that failed or was interrupted is started again (attempts is incremented).
+ */
+export const beginActionExecution = async (request: ActionExecutionRequest): Promise<ActionExecution | null> => {
+    const triggerTime = getTriggerTime(request.triggeringIndicator, request.streamMessageId);
+    const idempotencyKey = deriveIdempotencyKey(request.strategyId, request.actionId, request.symbol, triggerTime);
+
+    try {
+        return await prisma.actionExecution.create({
+            data: {
+                idempotencyKey,
+                strategyId: request.strategyId,
+                actionId: request.actionId ?? null,
+                actionType: request.actionType,
+                triggerTime,
+                streamMessageId: request.streamMessageId,
+                status: 'IN_PROGRESS',
+            }
+        });
+    } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+            throw error;
+        }
+    }
+
+    // Unique key taken: this logical action was executed (or attempted) before
+    const existing = await prisma.actionExecution.findUniqueOrThrow({ where: { idempotencyKey } });
+    if (existing.status === 'COMPLETED') {
+        console.warn(`   Action ${request.actionId}${request.symbol ? ` (${request.symbol})` : ''} of strategy ${request.strategyId} for trigger ${triggerTime} already executed (message ${existing.streamMessageId}). Refusing to execute it again.`);
+        return null;
+    }
+    console.log(`   Resuming ${existing.status} execution ${existing.id} (attempt ${existing.attempts + 1}).`);
+    return prisma.actionExecution.update({
+        where: { id: existing.id },
+        data: {
+            status: 'IN_PROGRESS',
+            attempts: { increment: 1 },
+            streamMessageId: request.streamMessageId,
+            error: null,
+        }
+    });
+};
+
+export const completeActionExecution = async (executionId: string): Promise<void> => {
+    await prisma.actionExecution.update({ where: { id: executionId }, data: { status: 'COMPLETED' } });
+};
+
+export const failActionExecution = async (executionId: string, error: any): Promise<void> => {
+    await prisma.actionExecution.update({
+        where: { id: executionId },
+        data: { status: 'FAILED', error: error?.message ?? String(error) },
+    });
+};
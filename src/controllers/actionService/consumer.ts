@@ -1,5 +1,10 @@
 import { getRedisClient } from "../../utils/redisClient";
 import { ACTION_STREAM_KEY } from "../scheduler/redisStream";
+import { ActionType } from "@prisma/client";
+import { buildRebalanceOrders } from "./rebalance";
+import { buildOrderFromActionParameters, placeOrder, placeOrders } from "./orderExecutor";
+import { beginActionExecution, completeActionExecution, failActionExecution } from "./actionExecution";
+import { PoisonMessageError, StreamConsumerConfig, StreamPayload, processStreamMessage, retryPendingMessages, recoverStuckMessages } from "../scheduler/streamRetry";
 
 const ACTION_GROUP_NAME = 'action_group';
 const ACTION_CONSUMER_NAME = `action_consumer_${process.pid}`;
@@ -21,12 +26,117 @@ async function setupActionConsumerGroup() {
     }
 }
 
+// Statuses Alpaca refuses an order with: 403 (e.g. insufficient buying power) and 422 (invalid order).
+// Any other failure, credentials and missing resources included, may be fixed in the meantime and is retried.
+const ORDER_REJECTION_STATUSES = [403, 422];
+
+// Alpaca refuses the order itself; sending it again cannot succeed
+const isOrderRejection = (error: any): boolean => {
+    const status = error?.response?.status ?? error?.statusCode;
+    return ORDER_REJECTION_STATUSES.includes(status);
+};
+
+// Executes one action; throws so failures are retried, or dead-lettered when they are permanent (see streamRetry)
+export const handleActionMessage = async (messageId: string, payload: StreamPayload): Promise<void> => {
+    // --- Parameter Parsing ---
+    let parsedParameters: any = {};
+    if (payload.parameters) {
+        try {
+            parsedParameters = JSON.parse(payload.parameters);
+        } catch (parseError: any) {
+            throw new PoisonMessageError(`Invalid parameters JSON '${payload.parameters}': ${parseError.message}`);
+        }
+    }
+    let triggeringIndicator: Record<string, any> = {};
+    try {
+        triggeringIndicator = JSON.parse(payload.triggeringIndicator ?? '{}');
+    } catch {
+        console.warn(`   Message ${messageId} has an unreadable triggeringIndicator, deduplicating on the message id.`);
+    }
+    if (!payload.strategyId || !Object.values(ActionType).includes(payload.actionType as ActionType)) {
+        throw new PoisonMessageError(`Message needs a strategyId and a valid actionType (got '${payload.actionType}')`);
+    }
+
+    // --- Idempotency: one execution per strategy action, symbol and trigger ---
+    const execution = await beginActionExecution({
+        strategyId: payload.strategyId,
+        actionId: payload.actionId,
+        symbol: typeof parsedParameters.symbol === 'string' ? parsedParameters.symbol : undefined,
+        actionType: payload.actionType as ActionType,
+        triggeringIndicator,
+        streamMessageId: messageId,
+    });
+    if (!execution) {
+        return; // Already executed, acknowledged without doing anything
+    }
+
+    // --- Action Logging ---
+    console.log(`   Action ID: ${payload.actionId}`);
+    console.log(`   Type: ${payload.actionType}`);
+    console.log(`   Strategy ID: ${payload.strategyId}`);
+    console.log(`   Parameters: ${JSON.stringify(parsedParameters)}`); // Log the parsed params
+    // console.log(`   Trigger: ${payload.triggeringIndicator}`); // Optional: Log trigger context
+
+    // --- Execution ---
+    const origin = { strategyId: payload.strategyId, actionId: payload.actionId, clientOrderId: execution.idempotencyKey };
+    try {
+        switch (payload.actionType) {
+            case ActionType.BUY:
+            case ActionType.SELL: {
+                let order;
+                try {
+                    order = buildOrderFromActionParameters(payload.actionType, parsedParameters);
+                } catch (parameterError: any) {
+                    throw new PoisonMessageError(parameterError.message);
+                }
+                await placeOrder(order, origin);
+                break;
+            }
+            case ActionType.REBALANCE: {
+                if (!parsedParameters.targetAllocation) {
+                    console.warn(`   REBALANCE message ${messageId} has no targetAllocation. Nothing to do.`);
+                    break;
+                }
+                const orders = await buildRebalanceOrders(parsedParameters.targetAllocation, parsedParameters);
+                console.log(`   Rebalance requires ${orders.length} orders.`);
+                await placeOrders(orders, origin);
+                break;
+            }
+            case ActionType.NOTIFY:
+            case ActionType.LOG_MESSAGE:
+                console.log(`   [${payload.actionType}] ${parsedParameters.message ?? '(no message)'}`);
+                break;
+            default:
+                console.warn(`   Unsupported action type ${payload.actionType} in message ${messageId}.`);
+        }
+        await completeActionExecution(execution.id);
+    } catch (error: any) {
+        await failActionExecution(execution.id, error);
+        if (isOrderRejection(error)) {
+            throw new PoisonMessageError(`Alpaca rejected the order: ${JSON.stringify(error.response?.data ?? error.message)}`);
+        }
+        throw error;
+    }
+};
+
+const consumerConfig: StreamConsumerConfig = {
+    stream: ACTION_STREAM_KEY,
+    group: ACTION_GROUP_NAME,
+    consumer: ACTION_CONSUMER_NAME,
+    handle: handleActionMessage,
+};
+
 export const startActionConsumer = async () => {
     await setupActionConsumerGroup(); // Ensure the group exists before starting
     console.log(`Action Consumer ${ACTION_CONSUMER_NAME} starting to listen to stream ${ACTION_STREAM_KEY}...`);
 
     while (true) {
         try {
+            // Failed actions whose backoff has elapsed go first
+            await retryPendingMessages(consumerConfig);
+            // Messages stranded by crashed or restarted consumers, checked periodically
+            await recoverStuckMessages(consumerConfig);
+
             // Read pending messages for this consumer within the group
             // '>' means read messages not yet delivered to *any* consumer in the group
             const response = await redisClient.xReadGroup(
@@ -54,50 +164,8 @@ export const startActionConsumer = async () => {
                             continue;
                         }
 
-                        try {
-                            // --- Parameter Parsing ---
-                            let parsedParameters = {};
-                            if (payload.parameters && typeof payload.parameters === 'string') {
-                                try {
-                                    parsedParameters = JSON.parse(payload.parameters);
-                                } catch (parseError) {
-                                    console.error(` - Error parsing parameters for message ${messageId}. Params: '${payload.parameters}'. Error:`, parseError);
-                                     // Acknowledge to prevent loop, skip processing
-                                     console.warn(` - Acknowledging message ${messageId} due to parameter parsing error.`);
-                                     await redisClient.xAck(ACTION_STREAM_KEY, ACTION_GROUP_NAME, messageId);
-                                     continue;
-                                }
-                            } else if (payload.parameters) {
-                                // If parameters is already an object (less likely with XADD string conversion, but good practice)
-                                parsedParameters = payload.parameters;
-                            }
-
-                            // --- *** Basic Action Logging (Execution Placeholder) *** ---
-                            console.log(`   Action ID: ${payload.actionId}`);
-                            console.log(`   Type: ${payload.actionType}`);
-                            console.log(`   Strategy ID: ${payload.strategyId}`);
-                            console.log(`   Parameters: ${JSON.stringify(parsedParameters)}`); // Log the parsed params
-                            // console.log(`   Trigger: ${payload.triggeringIndicator}`); // Optional: Log trigger context
-
-                            // Placeholder for actual execution logic (future step)
-                            // switch(payload.actionType) {
-                            //    case ActionType.EXECUTE_TRADE:
-                            //        await executeTrade(parsedParameters); break;
-                            //    case ActionType.SEND_NOTIFICATION:
-                            //        await sendNotification(parsedParameters); break;
-                            // }
-
-                            // --- Acknowledge successful processing ---
-                            await redisClient.xAck(ACTION_STREAM_KEY, ACTION_GROUP_NAME, messageId);
-                            console.log(`   Acknowledged message ${messageId}`);
-
-                        } catch (processingError) {
-                            console.error(`   Error processing action message ${messageId}:`, processingError);
-                            // Decide on error handling: For now, log and acknowledge to prevent infinite loops
-                            // In production, consider a retry mechanism or DLQ.
-                             console.warn(`   Acknowledging message ${messageId} despite processing error.`);
-                            await redisClient.xAck(ACTION_STREAM_KEY, ACTION_GROUP_NAME, messageId);
-                        }
+                        // Acknowledged once executed, left pending for a retry or dead-lettered otherwise
+                        await processStreamMessage(consumerConfig, messageId, payload);
                     }
                 }
             }
@@ -108,4 +176,4 @@ export const startActionConsumer = async () => {
             await new Promise(resolve => setTimeout(resolve, 5000));
         }
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,116 @@
+// src/controllers/actionService/orderExecutor.ts
+import { ActionType, StrategyOrder } from '@prisma/client';
+import alpaca from '../../services/alpacaClient';
+import prisma from '../../utils/prisma/prisma';
+import { POST_ORDERS_REQUEST } from '../tradingAPI/types';
+import { isCryptoSymbol } from '../../services/marketDataService';
+import { PlannedOrder } from './rebalance';
+
+// Which strategy/action an order is placed for, so it can be stored against them
+export interface OrderOrigin {
+    strategyId: string;
+    actionId?: string;
+    clientOrderId?: string; // Deterministic client_order_id (see actionExecution), overrides one from the parameters
+}
+
+// Order fields accepted from an Action's parameters JSON (side comes from the action type)
+const PASSTHROUGH_ORDER_FIELDS: (keyof POST_ORDERS_REQUEST)[] = [
+    'limit_price', 'stop_price', 'client_order_id', 'extended_hours', 'order_class',
+    'take_profit', 'stop_loss', 'trail_price', 'trail_percent',
+];
+
+/**
+ * Builds a POST_ORDERS_REQUEST-shaped order from BUY/SELL action parameters.
+ * Defaults to a market order, 'day' for equities and 'gtc' for crypto (Alpaca rejects 'day' for crypto).
+ * Throws if the parameters cannot make a valid order.
+ */
+export const buildOrderFromActionParameters = (
+    actionType: ActionType,
+    parameters: Record<string, any>
+): Partial<POST_ORDERS_REQUEST> => {
+    if (actionType !== ActionType.BUY && actionType !== ActionType.SELL) {
+        throw new Error(`Action type ${actionType} does not place a single order`);
+    }
+    const { symbol, qty, notional } = parameters;
+    if (!symbol || typeof symbol !== 'string') {
+        throw new Error(`${actionType} action parameters require a 'symbol'`);
+    }
+    if ((qty === undefined) === (notional === undefined)) {
+        throw new Error(`${actionType} action parameters require exactly one of 'qty' or 'notional'`);
+    }
+
+    const order: Partial<POST_ORDERS_REQUEST> = {
+        symbol,
+        side: actionType === ActionType.BUY ? 'buy' : 'sell',
+        type: parameters.type ?? 'market',
+        time_in_force: parameters.time_in_force ?? (isCryptoSymbol(symbol) ? 'gtc' : 'day'),
+    };
+    if (qty !== undefined) order.qty = Number(qty);
+    if (notional !== undefined) order.notional = Number(notional);
+    for (const field of PASSTHROUGH_ORDER_FIELDS) {
+        if (parameters[field] !== undefined) {
+            (order as Record<string, any>)[field] = parameters[field];
+        }
+    }
+    return order;
+};
+
+// Alpaca refuses a second order with the same client_order_id
+const isDuplicateClientOrderId = (error: any): boolean =>
+    error?.response?.status === 422 && /client_order_id must be unique/i.test(JSON.stringify(error.response?.data ?? ''));
+
+/**
+ * Places an order on the paper account and records the resulting Alpaca order id.
+ * With a client_order_id that Alpaca already knows (a retried execution), the existing order is recorded instead
+ * of placing a new one.
+ */
+export const placeOrder = async (
+    order: Partial<POST_ORDERS_REQUEST> | PlannedOrder,
+    origin: OrderOrigin
+): Promise<StrategyOrder> => {
+    const request = origin.clientOrderId ? { ...order, client_order_id: origin.clientOrderId } : order;
+    let placed: any;
+    try {
+        placed = await alpaca.createOrder(request);
+        console.log(`   Placed ${order.side} ${order.symbol} (${order.qty ?? `$${order.notional}`}) -> Alpaca order ${placed.id} [${placed.status}]`);
+    } catch (error: any) {
+        if (!origin.clientOrderId || !isDuplicateClientOrderId(error)) {
+            console.error(`   Alpaca rejected ${order.side} ${order.symbol}:`, error.response?.data || error.message);
+            throw error;
+        }
+        placed = await alpaca.getOrderByClientId(origin.clientOrderId);
+        console.warn(`   ${order.side} ${order.symbol} was already placed as ${origin.clientOrderId} -> Alpaca order ${placed.id} [${placed.status}]. Not placing it again.`);
+    }
+
+    const recorded = {
+        strategyId: origin.strategyId,
+        actionId: origin.actionId ?? null,
+        alpacaOrderId: placed.id,
+        clientOrderId: placed.client_order_id ?? null,
+        symbol: order.symbol!,
+        side: order.side!,
+        orderType: order.type ?? 'market',
+        qty: order.qty ?? null,
+        notional: order.notional ?? null,
+        status: placed.status ?? 'unknown',
+    };
+    // The order may have been recorded by the attempt that placed it
+    return prisma.strategyOrder.upsert({
+        where: { alpacaOrderId: placed.id },
+        create: recorded,
+        update: { status: recorded.status },
+    });
+};
+
+// Places rebalance orders one by one, so sells are submitted before the buys they fund.
+// Each order's client_order_id adds its symbol and side to the execution's, a retry recomputes the same ids.
+export const placeOrders = async (orders: PlannedOrder[], origin: OrderOrigin): Promise<StrategyOrder[]> => {
+    const recorded: StrategyOrder[] = [];
+    for (const order of orders) {
+        const clientOrderId = origin.clientOrderId
+            ? `${origin.clientOrderId}-${order.symbol.replace(/[^A-Za-z0-9]/g, '')}-${order.side}`
+            : undefined;
+        recorded.push(await placeOrder(order, { ...origin, clientOrderId }));
+    }
+    return recorded;
+};
@@ -0,0 +1,84 @@
+// src/controllers/actionService/rebalance.ts
+import alpaca from '../../services/alpacaClient';
+import { POST_ORDERS_REQUEST } from '../tradingAPI/types';
+import { TargetAllocation } from '../evaluationService/allocation';
+import { isCryptoSymbol } from '../../services/marketDataService';
+
+// Market order needed to move one position towards its target weight
+export type PlannedOrder = Pick<POST_ORDERS_REQUEST, 'symbol' | 'side' | 'type' | 'time_in_force'>
+    & Partial<Pick<POST_ORDERS_REQUEST, 'qty' | 'notional'>>;
+
+// Current holding as reported by Alpaca (qty and market_value come back as strings)
+export interface HeldPosition {
+    symbol: string;
+    qty: number;
+    marketValue: number;
+}
+
+// Optional REBALANCE action parameters
+export interface RebalanceOptions {
+    cashBufferPct?: number; // Percentage of equity kept in cash (default 0)
+    minOrderValue?: number; // Differences below this dollar amount are ignored (default 1)
+}
+
+// Alpaca reports crypto positions without the slash (BTCUSD) while orders use BTC/USD
+const positionKey = (symbol: string) => symbol.replace('/', '');
+
+const roundCents = (value: number) => Math.floor(value * 100) / 100;
+
+/**
+ * Computes the market orders that move the current positions to the target allocation.
+ * Positions not in the target are closed entirely (by qty), everything else is traded by notional.
+ * Sells come first so their proceeds fund the buys.
+ */
+export const planRebalanceOrders = (
+    targetAllocation: TargetAllocation,
+    positions: HeldPosition[],
+    equity: number,
+    options: RebalanceOptions = {}
+): PlannedOrder[] => {
+    const investable = equity * (1 - (options.cashBufferPct ?? 0) / 100);
+    const minOrderValue = options.minOrderValue ?? 1;
+
+    const targetSymbols = new Map(Object.keys(targetAllocation).map(symbol => [positionKey(symbol), symbol]));
+    const positionsByKey = new Map(positions.map(p => [positionKey(p.symbol), p]));
+    const sells: PlannedOrder[] = [];
+    const buys: PlannedOrder[] = [];
+
+    for (const key of new Set([...targetSymbols.keys(), ...positionsByKey.keys()])) {
+        const symbol = targetSymbols.get(key) ?? positionsByKey.get(key)!.symbol;
+        const position = positionsByKey.get(key);
+        const currentValue = position?.marketValue ?? 0;
+        const targetValue = investable * (targetAllocation[symbol] ?? 0);
+        const difference = targetValue - currentValue;
+        const timeInForce = isCryptoSymbol(symbol) ? 'gtc' : 'day';
+
+        if (Math.abs(difference) < minOrderValue) continue;
+
+        if (difference < 0 && targetValue === 0 && position) {
+            sells.push({ symbol, side: 'sell', type: 'market', time_in_force: timeInForce, qty: position.qty });
+        } else if (difference < 0) {
+            sells.push({ symbol, side: 'sell', type: 'market', time_in_force: timeInForce, notional: roundCents(-difference) });
+        } else {
+            buys.push({ symbol, side: 'buy', type: 'market', time_in_force: timeInForce, notional: roundCents(difference) });
+        }
+    }
+
+    return [...sells, ...buys];
+};
+
+// Reads equity and positions from the Alpaca account and plans the rebalance orders
+export const buildRebalanceOrders = async (
+    targetAllocation: TargetAllocation,
+    options: RebalanceOptions = {}
+): Promise<PlannedOrder[]> => {
+    const account = await alpaca.getAccount();
+    const rawPositions = await alpaca.getPositions();
+
+    const positions: HeldPosition[] = (rawPositions ?? []).map((p: any) => ({
+        symbol: p.symbol,
+        qty: parseFloat(p.qty),
+        marketValue: parseFloat(p.market_value),
+    }));
+    return planRebalanceOrders(targetAllocation, positions, parseFloat(account.equity), options);
+};
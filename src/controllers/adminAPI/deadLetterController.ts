@@ -0,0 +1,81 @@
+// src/controllers/adminAPI/deadLetterController.ts
+import { Request, Response, NextFunction } from 'express';
+import { initRedis } from '../../utils/redisClient';
+import { STREAM_KEY, ACTION_STREAM_KEY } from '../scheduler/redisStream';
+import { listDeadLetters, getDeadLetter, replayDeadLetter, discardDeadLetter } from '../scheduler/streamRetry';
+
+const DEFAULT_DEAD_LETTER_LIMIT = 50;
+const MAX_DEAD_LETTER_LIMIT = 500;
+const DEAD_LETTER_SOURCES = [STREAM_KEY, ACTION_STREAM_KEY];
+
+// Lists dead-lettered messages, newest first. Supports ?limit=N and ?stream=<source stream>.
+export const getDeadLetters = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_DEAD_LETTER_LIMIT;
+    const stream = req.query.stream as string | undefined;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DEAD_LETTER_LIMIT) {
+        res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_DEAD_LETTER_LIMIT}` });
+        return;
+    }
+    if (stream !== undefined && !DEAD_LETTER_SOURCES.includes(stream)) {
+        res.status(400).json({ error: `stream must be one of ${DEAD_LETTER_SOURCES.join(', ')}` });
+        return;
+    }
+
+    try {
+        await initRedis();
+        res.status(200).json(await listDeadLetters(limit, stream));
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const getDeadLetterById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { deadLetterId } = req.params;
+    try {
+        await initRedis();
+        const deadLetter = await getDeadLetter(deadLetterId);
+        if (!deadLetter) {
+            res.status(404).json({ error: `Dead letter ${deadLetterId} not found` });
+            return;
+        }
+        res.status(200).json(deadLetter);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Publishes the message again on its source stream, where it is processed like a new message
+export const replayDeadLetterById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { deadLetterId } = req.params;
+    try {
+        await initRedis();
+        const deadLetter = await getDeadLetter(deadLetterId);
+        if (!deadLetter) {
+            res.status(404).json({ error: `Dead letter ${deadLetterId} not found` });
+            return;
+        }
+        if (!DEAD_LETTER_SOURCES.includes(deadLetter.sourceStream)) {
+            res.status(409).json({ error: `Dead letter ${deadLetterId} comes from unknown stream '${deadLetter.sourceStream}'` });
+            return;
+        }
+        const messageId = await replayDeadLetter(deadLetter);
+        res.status(200).json({ replayed: deadLetterId, stream: deadLetter.sourceStream, messageId });
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const discardDeadLetterById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { deadLetterId } = req.params;
+    try {
+        await initRedis();
+        if (!(await discardDeadLetter(deadLetterId))) {
+            res.status(404).json({ error: `Dead letter ${deadLetterId} not found` });
+            return;
+        }
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
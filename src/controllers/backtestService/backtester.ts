@@ -0,0 +1,505 @@
+// src/controllers/backtestService/backtester.ts
+/**
+ * Replays a strategy's block tree over historical Alpaca bars.
+ *
+ * Indicators are computed locally from the bars and handed to the regular evaluator through an
+ * IndicatorDataSource, so a backtest walks exactly the same tree logic as live evaluation. Market quantities
+ * (PRICE, VOLUME, ...) are read from the bars the way a snapshot at each close would have read them; the daily
+ * ones need a daily interval.
+ * A bar only becomes visible once it has closed, and the actions fired at a bar's close are
+ * filled at the open of the traded symbol's next bar. Fills are frictionless (no fees or slippage),
+ * limit/stop prices are ignored, and the portfolio never borrows: buys are capped by cash and sells by the position.
+ * Firing modes hold actions back as they would live, cooldowns counted in bars of the step interval.
+ */
+import { ActionType, Condition } from '@prisma/client';
+import prisma from '../../utils/prisma/prisma';
+import {
+    AlpacaBar, fetchBars, fetchMarketCap, toAlpacaTimeframe, intervalMinutes
+} from '../../services/marketDataService';
+import { computeLocalIndicator, isLocalIndicatorType } from '../technicalIndicators/localIndicators';
+import {
+    isMarketQuantityType, marketQuantitiesFromBars, DAILY_MARKET_QUANTITY_TYPES
+} from '../technicalIndicators/snapshotProvider';
+import {
+    evaluateBlockTree, loadStrategyBlockTree, EvaluationBlock, IndicatorDataSource, ActionDispatchEntry
+} from '../evaluationService/evaluator';
+import { AllocationDataSource, TargetAllocation } from '../evaluationService/allocation';
+import { compileExpressionCondition, isExpressionCondition } from '../evaluationService/expression';
+import { createReplayFiringModes } from '../evaluationService/firingModes';
+import { buildOrderFromActionParameters } from '../actionService/orderExecutor';
+import { planRebalanceOrders, RebalanceOptions } from '../actionService/rebalance';
+
+const DEFAULT_INITIAL_CAPITAL = 100000;
+const DEFAULT_WARMUP_BARS = 200;
+const MAX_INDICATOR_WINDOW = 300; // Points handed to the evaluator per condition, above MAX_LOOKBACK_BARS
+const MINUTE_MS = 60 * 1000;
+const YEAR_MS = 365.25 * 24 * 60 * MINUTE_MS;
+
+// Thrown for backtests that cannot run with the strategy or range given (reported as 4xx by the controller)
+export class BacktestError extends Error {}
+
+// Replaces condition settings for one run without touching the stored strategy (used by sweeps)
+export type ConditionOverrides = Record<string, {
+    targetValue?: number;
+    parameters?: Record<string, any>; // Merged over the condition's own parameters
+}>;
+
+export interface BacktestOptions {
+    start: string; // ISO date, first bar evaluated
+    end: string;   // ISO date, last bar evaluated
+    initialCapital?: number;
+    interval?: string; // Evaluation step; defaults to the finest interval used by the strategy's conditions
+    warmupBars?: number; // Extra history fetched before 'start' so indicators are primed
+    conditionOverrides?: ConditionOverrides;
+}
+
+export interface BacktestTrade {
+    timestamp: string;
+    symbol: string;
+    side: 'buy' | 'sell';
+    qty: number;
+    price: number;
+    value: number;
+    actionId: string;
+    realizedPnl?: number; // Sells only, against the average cost of the position
+}
+
+export interface EquityPoint {
+    timestamp: string;
+    equity: number;
+    cash: number;
+}
+
+export interface BacktestSummary {
+    initialCapital: number;
+    finalEquity: number;
+    totalReturn: number; // Fractions, 0.1 = 10%
+    cagr: number | null;
+    sharpe: number | null; // Annualised, risk-free rate 0
+    maxDrawdown: number;
+    winRate: number | null; // Share of sells closed at a profit
+    tradeCount: number;
+    unfilledActions: number; // Actions still waiting for a bar when the range ended
+    heldBackActions: number; // Reached actions their firing mode did not fire
+}
+
+export interface BacktestResult {
+    strategyId: string;
+    start: string;
+    end: string;
+    interval: string;
+    summary: BacktestSummary;
+    equityCurve: EquityPoint[];
+    trades: BacktestTrade[];
+}
+
+// Bars of one symbol/interval with the time each bar opens and closes, for lookahead-free visibility checks
+interface BarSeries {
+    bars: AlpacaBar[];
+    openTimes: number[];
+    closeTimes: number[];
+}
+
+// Bars and computed indicators kept between runs, so a sweep fetches and computes each series once
+export interface BacktestCache {
+    bars: Map<string, Promise<BarSeries>>;
+    indicators: Map<string, PreparedIndicator>;
+}
+
+export const createBacktestCache = (): BacktestCache => ({ bars: new Map(), indicators: new Map() });
+
+interface PreparedIndicator {
+    timestamps: string[];
+    closeTimes: number[];
+    values: Record<string, string>[];
+}
+
+// Condition checked to have what a replay needs
+type ReplayedCondition = Condition & { symbol: string; interval: string };
+
+interface PendingOrder {
+    action: ActionDispatchEntry;
+    queuedAt: number; // Evaluation time the action fired at
+}
+
+interface Position {
+    qty: number;
+    averageCost: number;
+}
+
+// Index of the first element greater than 'value' in an ascending array
+const upperBound = (values: number[], value: number): number => {
+    let low = 0;
+    let high = values.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (values[mid] <= value) low = mid + 1; else high = mid;
+    }
+    return low;
+};
+
+// Index of the first element greater than or equal to 'value' in an ascending array
+const lowerBound = (values: number[], value: number): number => {
+    let low = 0;
+    let high = values.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (values[mid] < value) low = mid + 1; else high = mid;
+    }
+    return low;
+};
+
+const applyConditionOverrides = (condition: Condition, overrides: ConditionOverrides) => {
+    const override = overrides[condition.id];
+    if (!override) return;
+    if (override.targetValue !== undefined) condition.targetValue = override.targetValue;
+    if (override.parameters) {
+        condition.parameters = { ...(condition.parameters as Record<string, any>), ...override.parameters };
+    }
+};
+
+// Collects the conditions linked anywhere in the tree, applying the run's overrides to every copy
+const collectConditions = (block: EvaluationBlock, conditions: Map<string, Condition>, overrides: ConditionOverrides) => {
+    if (block.condition) {
+        applyConditionOverrides(block.condition, overrides);
+        conditions.set(block.condition.id, block.condition);
+    }
+    for (const child of block.children) collectConditions(child, conditions, overrides);
+};
+
+// Ids of the actions linked anywhere in the tree
+const collectActionIds = (block: EvaluationBlock, actionIds: Set<string>) => {
+    if (block.action) actionIds.add(block.action.id);
+    for (const child of block.children) collectActionIds(child, actionIds);
+};
+
+// Fetches bars once per symbol/interval and range, shared through the cache
+const createBarLoader = (from: Date, to: Date, cache: BacktestCache) => {
+    const loaded = cache.bars;
+
+    return (symbol: string, interval: string): Promise<BarSeries> => {
+        const key = `${symbol}|${interval}|${from.toISOString()}|${to.toISOString()}`;
+        if (!loaded.has(key)) {
+            const timeframe = toAlpacaTimeframe(interval)!;
+            const barMs = intervalMinutes(interval)! * MINUTE_MS;
+            loaded.set(key, fetchBars(symbol, timeframe, { start: from.toISOString(), end: to.toISOString() })
+                .then(bars => {
+                    const openTimes = bars.map(bar => Date.parse(bar.t));
+                    return { bars, openTimes, closeTimes: openTimes.map(time => time + barMs) };
+                }));
+        }
+        return loaded.get(key)!;
+    };
+};
+
+const annualisedSharpe = (equityCurve: EquityPoint[], years: number): number | null => {
+    if (equityCurve.length < 3 || years <= 0) return null;
+    const returns: number[] = [];
+    for (let i = 1; i < equityCurve.length; i++) {
+        returns.push(equityCurve[i].equity / equityCurve[i - 1].equity - 1);
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const std = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+    if (std === 0) return null;
+    const periodsPerYear = returns.length / years;
+    return (mean / std) * Math.sqrt(periodsPerYear);
+};
+
+const maxDrawdownOf = (equityCurve: EquityPoint[]): number => {
+    let peak = -Infinity;
+    let maxDrawdown = 0;
+    for (const point of equityCurve) {
+        peak = Math.max(peak, point.equity);
+        if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+    }
+    return maxDrawdown;
+};
+
+export const runBacktest = async (
+    strategyId: string,
+    options: BacktestOptions,
+    cache: BacktestCache = createBacktestCache()
+): Promise<BacktestResult> => {
+    const start = new Date(options.start);
+    const end = new Date(options.end);
+    const initialCapital = options.initialCapital ?? DEFAULT_INITIAL_CAPITAL;
+    const warmupBars = options.warmupBars ?? DEFAULT_WARMUP_BARS;
+
+    const rootBlock = await loadStrategyBlockTree(strategyId);
+    if (!rootBlock) {
+        throw new BacktestError(`Strategy ${strategyId} has no ROOT block to backtest`);
+    }
+
+    // 1. Every condition in the tree plus the indicators they compare against
+    const overrides = options.conditionOverrides ?? {};
+    const conditions = new Map<string, Condition>();
+    collectConditions(rootBlock, conditions, overrides);
+    const targetIds = [...conditions.values()]
+        .map(c => c.targetIndicatorId)
+        .filter((id): id is string => !!id && !conditions.has(id));
+    if (targetIds.length > 0) {
+        for (const target of await prisma.condition.findMany({ where: { id: { in: targetIds } } })) {
+            applyConditionOverrides(target, overrides);
+            conditions.set(target.id, target);
+        }
+    }
+    if (conditions.size === 0) {
+        throw new BacktestError('Strategy has no conditions, there is nothing to replay bar by bar');
+    }
+    // EXPRESSION conditions are replayed through their references, each computed like a condition of its own
+    const dataConditions: Condition[] = [];
+    for (const condition of conditions.values()) {
+        if (!isExpressionCondition(condition)) {
+            dataConditions.push(condition);
+            continue;
+        }
+        try {
+            dataConditions.push(...compileExpressionCondition(condition).references.map(reference => reference.condition));
+        } catch (error: any) {
+            throw new BacktestError(`Condition ${condition.id} has an invalid expression: ${error.message}`);
+        }
+    }
+    for (const condition of dataConditions) {
+        if (!condition.symbol || !condition.interval || !toAlpacaTimeframe(condition.interval)) {
+            throw new BacktestError(`Condition ${condition.id} needs a symbol and one of the supported intervals to be backtested`);
+        }
+        if (isMarketQuantityType(condition.indicatorType)) {
+            if (DAILY_MARKET_QUANTITY_TYPES.includes(condition.indicatorType) && condition.interval !== 'daily') {
+                throw new BacktestError(`${condition.indicatorType} (condition ${condition.id}) describes the daily bar and can only be backtested with interval 'daily'`);
+            }
+        } else if (!isLocalIndicatorType(condition.indicatorType)) {
+            throw new BacktestError(`Indicator type ${condition.indicatorType} (condition ${condition.id}) cannot be computed for backtests`);
+        }
+    }
+    const replayed = dataConditions as ReplayedCondition[];
+
+    const interval = options.interval
+        ?? replayed.map(c => c.interval).sort((a, b) => intervalMinutes(a)! - intervalMinutes(b)!)[0];
+    if (!toAlpacaTimeframe(interval)) {
+        throw new BacktestError(`Unsupported backtest interval '${interval}'`);
+    }
+    const stepMs = intervalMinutes(interval)! * MINUTE_MS;
+
+    // 2. Bars from before 'start' so indicators are warmed up; intraday bars only cover trading hours, hence the padding
+    const longestBarMs = Math.max(...replayed.map(c => intervalMinutes(c.interval)! * MINUTE_MS));
+    const warmupMs = Math.max(longestBarMs * warmupBars * (longestBarMs < 1440 * MINUTE_MS ? 5 : 1.6), 7 * 1440 * MINUTE_MS);
+    const barsFrom = new Date(start.getTime() - warmupMs);
+    const loadBars = createBarLoader(barsFrom, end, cache);
+
+    const indicators = new Map<string, PreparedIndicator>();
+    for (const condition of replayed) {
+        const indicatorKey = [
+            condition.symbol, condition.interval, condition.indicatorType,
+            JSON.stringify(condition.parameters), barsFrom.toISOString(), end.toISOString(),
+        ].join('|');
+        if (!cache.indicators.has(indicatorKey)) {
+            const series = await loadBars(condition.symbol, condition.interval);
+            const barMs = intervalMinutes(condition.interval)! * MINUTE_MS;
+            const data = isMarketQuantityType(condition.indicatorType)
+                ? marketQuantitiesFromBars(condition.indicatorType, series.bars)
+                : computeLocalIndicator(condition.indicatorType, condition.parameters as Record<string, any>, series.bars);
+            const timestamps = Object.keys(data).sort();
+            cache.indicators.set(indicatorKey, {
+                timestamps,
+                closeTimes: timestamps.map(t => Date.parse(t) + barMs),
+                values: timestamps.map(t => data[t]),
+            });
+        }
+        indicators.set(condition.id, cache.indicators.get(indicatorKey)!);
+    }
+
+    // 3. Timeline: bars of the step interval inside the range, across the conditions' symbols
+    const timelineTimes = new Set<number>();
+    for (const condition of replayed) {
+        if (condition.interval !== interval) continue;
+        for (const bar of (await loadBars(condition.symbol, interval)).bars) {
+            const time = Date.parse(bar.t);
+            if (time >= start.getTime() && time <= end.getTime()) timelineTimes.add(time);
+        }
+    }
+    if (timelineTimes.size === 0) {
+        throw new BacktestError(`No ${interval} bars between ${options.start} and ${options.end} for the strategy's conditions`);
+    }
+    const timeline = [...timelineTimes].sort((a, b) => a - b);
+
+    // The evaluator sees, per condition, only the bars that have closed by the current evaluation time
+    let evaluationTime = 0;
+    const indicatorData: IndicatorDataSource = {
+        getCondition: async (conditionId) => conditions.get(conditionId) ?? null,
+        getIndicatorData: async (condition) => {
+            const prepared = indicators.get(condition.id);
+            if (!prepared) return null;
+            const visible = upperBound(prepared.closeTimes, evaluationTime);
+            if (visible === 0) return null;
+            const data: Record<string, Record<string, string>> = {};
+            for (let i = Math.max(0, visible - MAX_INDICATOR_WINDOW); i < visible; i++) {
+                data[prepared.timestamps[i]] = prepared.values[i];
+            }
+            return data;
+        },
+    };
+    const allocationData: AllocationDataSource = {
+        getDailyCloses: async (symbol, lookbackDays) => {
+            const daily = await loadBars(symbol, 'daily');
+            const visible = upperBound(daily.closeTimes, evaluationTime);
+            return daily.bars.slice(Math.max(0, visible - (lookbackDays + 1)), visible).map(bar => bar.c);
+        },
+        // No point-in-time fundamentals: today's market cap is used for the whole range
+        getMarketCap: (symbol) => fetchMarketCap(symbol, 'adhoc'),
+    };
+
+    // 4. Portfolio simulation
+    let cash = initialCapital;
+    const positions = new Map<string, Position>();
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    let pendingOrders: PendingOrder[] = [];
+    let heldBackActions = 0;
+
+    const actionIds = new Set<string>();
+    collectActionIds(rootBlock, actionIds);
+    const applyReplayFiringModes = await createReplayFiringModes(strategyId, [...actionIds]);
+
+    // Open of the symbol's first bar starting at/after 'from' and before 'until', null if it has not traded yet
+    const openPriceBetween = async (symbol: string, from: number, until: number): Promise<{ price: number; timestamp: string } | null> => {
+        const series = await loadBars(symbol, interval);
+        const index = lowerBound(series.openTimes, from);
+        const bar = series.bars[index];
+        if (!bar || series.openTimes[index] >= until) return null;
+        return { price: bar.o, timestamp: bar.t };
+    };
+
+    // Latest close at or before 'time', for marking positions to market
+    const lastClose = async (symbol: string, time: number): Promise<number | null> => {
+        const series = await loadBars(symbol, interval);
+        const visible = upperBound(series.closeTimes, time);
+        return visible > 0 ? series.bars[visible - 1].c : null;
+    };
+
+    const execute = (symbol: string, side: 'buy' | 'sell', requestedQty: number, price: number, timestamp: string, actionId: string) => {
+        const position = positions.get(symbol) ?? { qty: 0, averageCost: 0 };
+        const qty = side === 'buy'
+            ? Math.min(requestedQty, cash / price)
+            : Math.min(requestedQty, position.qty);
+        if (qty <= 0 || !Number.isFinite(qty)) return;
+
+        const value = qty * price;
+        const trade: BacktestTrade = { timestamp, symbol, side, qty, price, value, actionId };
+        if (side === 'buy') {
+            position.averageCost = (position.averageCost * position.qty + value) / (position.qty + qty);
+            position.qty += qty;
+            cash -= value;
+        } else {
+            trade.realizedPnl = (price - position.averageCost) * qty;
+            position.qty -= qty;
+            cash += value;
+        }
+        if (position.qty > 1e-9) positions.set(symbol, position); else positions.delete(symbol);
+        trades.push(trade);
+    };
+
+    // Fills one fired action; returns false when a price is not available yet so it stays pending
+    const fill = async (order: PendingOrder, until: number): Promise<boolean> => {
+        const { action } = order;
+
+        if (action.actionType === ActionType.BUY || action.actionType === ActionType.SELL) {
+            let marketOrder;
+            try {
+                marketOrder = buildOrderFromActionParameters(action.actionType, action.parameters);
+            } catch (error: any) {
+                console.warn(`   Backtest: skipping action ${action.actionId}: ${error.message}`);
+                return true;
+            }
+            const quote = await openPriceBetween(marketOrder.symbol!, order.queuedAt, until);
+            if (!quote) return false;
+            const qty = marketOrder.qty ?? marketOrder.notional! / quote.price;
+            execute(marketOrder.symbol!, marketOrder.side!, qty, quote.price, quote.timestamp, action.actionId);
+            return true;
+        }
+
+        if (action.actionType === ActionType.REBALANCE) {
+            const target = action.parameters.targetAllocation as TargetAllocation;
+            const symbols = new Set([...Object.keys(target), ...positions.keys()]);
+            const quotes = new Map<string, { price: number; timestamp: string }>();
+            for (const symbol of symbols) {
+                const quote = await openPriceBetween(symbol, order.queuedAt, until);
+                if (!quote) return false; // Rebalance once every symbol involved can trade
+                quotes.set(symbol, quote);
+            }
+            const held = [...positions.entries()].map(([symbol, p]) => ({
+                symbol, qty: p.qty, marketValue: p.qty * quotes.get(symbol)!.price,
+            }));
+            const equity = cash + held.reduce((sum, p) => sum + p.marketValue, 0);
+            const planned = planRebalanceOrders(target, held, equity, action.parameters as RebalanceOptions);
+            for (const plannedOrder of planned) {
+                const quote = quotes.get(plannedOrder.symbol)!;
+                const qty = plannedOrder.qty ?? plannedOrder.notional! / quote.price;
+                execute(plannedOrder.symbol, plannedOrder.side, qty, quote.price, quote.timestamp, action.actionId);
+            }
+            return true;
+        }
+
+        return true; // NOTIFY / LOG_MESSAGE have no effect on the portfolio
+    };
+
+    for (const barTime of timeline) {
+        evaluationTime = barTime + stepMs;
+
+        // Actions fired at the previous close fill at the first open after it
+        const stillPending: PendingOrder[] = [];
+        for (const order of pendingOrders) {
+            if (!await fill(order, evaluationTime)) stillPending.push(order);
+        }
+        pendingOrders = stillPending;
+
+        const evaluation = await evaluateBlockTree(rootBlock, {
+            strategyId,
+            triggeringIndicator: { source: 'backtest', barTime: new Date(barTime).toISOString() },
+            indicatorData,
+            allocationData,
+            verbose: false,
+        });
+        for (const action of applyReplayFiringModes(evaluation.actions, new Date(evaluationTime), evaluation.unreachedActionIds)) {
+            if (action.suppressedReason) {
+                heldBackActions++;
+                continue;
+            }
+            pendingOrders.push({ action, queuedAt: evaluationTime });
+        }
+
+        let equity = cash;
+        for (const [symbol, position] of positions) {
+            const price = await lastClose(symbol, evaluationTime);
+            equity += position.qty * (price ?? position.averageCost);
+        }
+        equityCurve.push({ timestamp: new Date(barTime).toISOString(), equity, cash });
+    }
+
+    // 5. Summary statistics
+    const finalEquity = equityCurve[equityCurve.length - 1].equity;
+    const years = (timeline[timeline.length - 1] + stepMs - timeline[0]) / YEAR_MS;
+    const closedTrades = trades.filter(t => t.realizedPnl !== undefined);
+
+    return {
+        strategyId,
+        start: options.start,
+        end: options.end,
+        interval,
+        summary: {
+            initialCapital,
+            finalEquity,
+            totalReturn: finalEquity / initialCapital - 1,
+            cagr: years > 0 && finalEquity > 0 ? Math.pow(finalEquity / initialCapital, 1 / years) - 1 : null,
+            sharpe: annualisedSharpe(equityCurve, years),
+            maxDrawdown: maxDrawdownOf(equityCurve),
+            winRate: closedTrades.length > 0
+                ? closedTrades.filter(t => t.realizedPnl! > 0).length / closedTrades.length
+                : null,
+            tradeCount: trades.length,
+            unfilledActions: pendingOrders.length,
+            heldBackActions,
+        },
+        equityCurve,
+        trades,
+    };
+};
@@ -0,0 +1,214 @@
+// src/controllers/backtestService/sweep.ts
+/**
+ * Parameter sweeps over backtests: every combination of the declared condition parameter ranges is
+ * backtested and ranked, either once over the whole range (grid) or per fold of a walk-forward split,
+ * where the best combination on each training window is then backtested on the window that follows it.
+ */
+import {
+    runBacktest, createBacktestCache, BacktestError, BacktestSummary, ConditionOverrides, BacktestCache
+} from './backtester';
+
+export const MAX_SWEEP_COMBINATIONS = 200;
+const DEFAULT_TRAIN_RATIO = 0.7;
+const TOP_TRAIN_RUNS_PER_FOLD = 10;
+
+export type SweepMetric = 'sharpe' | 'cagr' | 'totalReturn' | 'maxDrawdown' | 'winRate';
+export const SWEEP_METRICS: SweepMetric[] = ['sharpe', 'cagr', 'totalReturn', 'maxDrawdown', 'winRate'];
+
+// One swept field: either explicit values or an inclusive min/max/step range
+export interface ParameterRange {
+    conditionId: string;
+    field: string; // 'targetValue' or 'parameters.<name>', e.g. 'parameters.time_period'
+    values?: number[];
+    min?: number;
+    max?: number;
+    step?: number;
+}
+
+export interface WalkForwardOptions {
+    folds: number;
+    trainRatio?: number; // Share of each fold used for training (default 0.7)
+}
+
+export interface SweepRequest {
+    strategyId: string;
+    start: string;
+    end: string;
+    initialCapital?: number;
+    interval?: string;
+    warmupBars?: number;
+    ranges: ParameterRange[];
+    rankBy?: SweepMetric; // Default 'sharpe'
+    walkForward?: WalkForwardOptions; // Without it one grid is run over the whole range
+}
+
+// Values of one combination, keyed by `${conditionId}.${field}`
+export type ParameterSet = Record<string, number>;
+
+export interface SweepRun {
+    parameters: ParameterSet;
+    summary: BacktestSummary | null;
+    score: number | null;
+    error?: string; // The combination could not be backtested (e.g. no bars in the window)
+}
+
+export interface WalkForwardFold {
+    trainStart: string;
+    trainEnd: string;
+    testStart: string;
+    testEnd: string;
+    best: SweepRun | null; // Best training run, null when no combination produced a score
+    test: BacktestSummary | null; // The best combination backtested on the test window
+    topTrainRuns: SweepRun[];
+}
+
+export interface SweepResult {
+    strategyId: string;
+    mode: 'grid' | 'walkForward';
+    rankBy: SweepMetric;
+    combinations: number;
+    grid?: SweepRun[]; // Ranked, best first
+    folds?: WalkForwardFold[];
+}
+
+export type SweepProgress = (completed: number, total: number) => Promise<void> | void;
+
+// Number of values a range sweeps, computed without expanding it (ranges come straight from request bodies)
+export const rangeSize = (range: ParameterRange): number => {
+    if (range.values) return range.values.length;
+    return Math.floor((range.max! - range.min!) / range.step! + 1e-9) + 1;
+};
+
+// Values a range expands to; min/max/step values are rounded to avoid floating point drift.
+// Only call once the sweep size was checked against MAX_SWEEP_COMBINATIONS
+export const expandRange = (range: ParameterRange): number[] => {
+    if (range.values) return range.values;
+    const size = rangeSize(range);
+    const values: number[] = [];
+    for (let i = 0; i < size; i++) {
+        values.push(Number((range.min! + i * range.step!).toFixed(10)));
+    }
+    return values;
+};
+
+export const countCombinations = (ranges: ParameterRange[]): number =>
+    ranges.reduce((count, range) => count * rangeSize(range), 1);
+
+const rangeKey = (range: ParameterRange) => `${range.conditionId}.${range.field}`;
+
+// Cartesian product of every range
+const buildCombinations = (ranges: ParameterRange[]): ParameterSet[] => {
+    let combinations: ParameterSet[] = [{}];
+    for (const range of ranges) {
+        const next: ParameterSet[] = [];
+        for (const combination of combinations) {
+            for (const value of expandRange(range)) {
+                next.push({ ...combination, [rangeKey(range)]: value });
+            }
+        }
+        combinations = next;
+    }
+    return combinations;
+};
+
+const toOverrides = (ranges: ParameterRange[], parameterSet: ParameterSet): ConditionOverrides => {
+    const overrides: ConditionOverrides = {};
+    for (const range of ranges) {
+        const value = parameterSet[rangeKey(range)];
+        const override = overrides[range.conditionId] ?? (overrides[range.conditionId] = {});
+        if (range.field === 'targetValue') {
+            override.targetValue = value;
+        } else {
+            override.parameters = { ...override.parameters, [range.field.slice('parameters.'.length)]: value };
+        }
+    }
+    return overrides;
+};
+
+// Higher is better; drawdown is negated so the smallest drawdown ranks first
+const scoreOf = (summary: BacktestSummary, metric: SweepMetric): number | null => {
+    const value = metric === 'maxDrawdown' ? -summary.maxDrawdown : summary[metric];
+    return value === null || !Number.isFinite(value) ? null : value;
+};
+
+const rankRuns = (runs: SweepRun[]): SweepRun[] =>
+    [...runs].sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity));
+
+const runCombination = async (
+    request: SweepRequest,
+    parameterSet: ParameterSet,
+    start: string,
+    end: string,
+    rankBy: SweepMetric,
+    cache: BacktestCache
+): Promise<SweepRun> => {
+    try {
+        const result = await runBacktest(request.strategyId, {
+            start,
+            end,
+            initialCapital: request.initialCapital,
+            interval: request.interval,
+            warmupBars: request.warmupBars,
+            conditionOverrides: toOverrides(request.ranges, parameterSet),
+        }, cache);
+        return { parameters: parameterSet, summary: result.summary, score: scoreOf(result.summary, rankBy) };
+    } catch (error) {
+        // A combination that cannot run is reported in the grid, anything else aborts the sweep
+        if (error instanceof BacktestError) {
+            return { parameters: parameterSet, summary: null, score: null, error: error.message };
+        }
+        throw error;
+    }
+};
+
+export const runSweep = async (request: SweepRequest, onProgress?: SweepProgress): Promise<SweepResult> => {
+    const rankBy = request.rankBy ?? 'sharpe';
+    const combinations = buildCombinations(request.ranges);
+    const cache = createBacktestCache();
+
+    if (!request.walkForward) {
+        const runs: SweepRun[] = [];
+        for (const parameterSet of combinations) {
+            runs.push(await runCombination(request, parameterSet, request.start, request.end, rankBy, cache));
+            await onProgress?.(runs.length, combinations.length);
+        }
+        return { strategyId: request.strategyId, mode: 'grid', rankBy, combinations: combinations.length, grid: rankRuns(runs) };
+    }
+
+    // Walk-forward: consecutive folds, each split into a training window and the test window after it
+    const { folds: foldCount, trainRatio = DEFAULT_TRAIN_RATIO } = request.walkForward;
+    const startTime = Date.parse(request.start);
+    const foldSpan = (Date.parse(request.end) - startTime) / foldCount;
+    const total = foldCount * (combinations.length + 1);
+    let completed = 0;
+
+    const folds: WalkForwardFold[] = [];
+    for (let i = 0; i < foldCount; i++) {
+        const foldStart = startTime + i * foldSpan;
+        const trainStart = new Date(foldStart).toISOString();
+        const trainEnd = new Date(foldStart + foldSpan * trainRatio).toISOString();
+        const testEnd = new Date(foldStart + foldSpan).toISOString();
+
+        const trainRuns: SweepRun[] = [];
+        for (const parameterSet of combinations) {
+            trainRuns.push(await runCombination(request, parameterSet, trainStart, trainEnd, rankBy, cache));
+            await onProgress?.(++completed, total);
+        }
+        const ranked = rankRuns(trainRuns);
+        const best = ranked.length > 0 && ranked[0].score !== null ? ranked[0] : null;
+
+        let test: BacktestSummary | null = null;
+        if (best) {
+            test = (await runCombination(request, best.parameters, trainEnd, testEnd, rankBy, cache)).summary;
+        }
+        await onProgress?.(++completed, total);
+
+        folds.push({
+            trainStart, trainEnd, testStart: trainEnd, testEnd,
+            best, test,
+            topTrainRuns: ranked.slice(0, TOP_TRAIN_RUNS_PER_FOLD),
+        });
+    }
+
+    return { strategyId: request.strategyId, mode: 'walkForward', rankBy, combinations: combinations.length, folds };
+};
@@ -0,0 +1,35 @@
+// src/controllers/backtestService/sweepWorker.ts
+import { Worker, Job } from 'bullmq';
+import { queueConnection, BACKTEST_QUEUE_NAME } from '../../utils/redisClient';
+import { runSweep, SweepRequest, SweepResult } from './sweep';
+
+let worker: Worker<SweepRequest, SweepResult> | null = null;
+
+// Sweeps are CPU heavy, one at a time per process
+const processSweep = async (job: Job<SweepRequest, SweepResult>): Promise<SweepResult> => {
+    console.log(`Backtest sweep job ${job.id} started for strategy ${job.data.strategyId}`);
+    const result = await runSweep(job.data, async (completed, total) => {
+        await job.updateProgress({ completed, total });
+    });
+    console.log(`Backtest sweep job ${job.id} finished (${result.combinations} combinations, ${result.mode}).`);
+    return result;
+};
+
+export const startSweepWorker = () => {
+    if (worker) return worker;
+    worker = new Worker<SweepRequest, SweepResult>(BACKTEST_QUEUE_NAME, processSweep, {
+        connection: queueConnection,
+        concurrency: 1,
+    });
+    worker.on('failed', (job, error) => {
+        console.error(`Backtest sweep job ${job?.id} failed:`, error.message);
+    });
+    return worker;
+};
+
+export const stopSweepWorker = async () => {
+    if (worker) {
+        await worker.close();
+        worker = null;
+    }
+};
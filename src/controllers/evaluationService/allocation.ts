@@ -0,0 +1,118 @@
+// src/controllers/evaluationService/allocation.ts
+import { AssetBlockParameters, WeightBlockParameters } from '../strategyAPI/strategyApiTypes';
+import { fetchDailyCloses, fetchMarketCap } from '../../services/marketDataService';
+
+// Target portfolio weights by symbol, as fractions of equity (0..1)
+export type TargetAllocation = Record<string, number>;
+
+// Market data the weighting schemes need; the live implementation calls Alpaca / Alpha Vantage
+export interface AllocationDataSource {
+    getDailyCloses: (symbol: string, lookbackDays: number) => Promise<number[]>;
+    getMarketCap: (symbol: string) => Promise<number | null>;
+}
+
+export const liveAllocationDataSource: AllocationDataSource = {
+    getDailyCloses: fetchDailyCloses,
+    getMarketCap: (symbol) => fetchMarketCap(symbol, 'live'), // Live evaluations go before ad-hoc Alpha Vantage calls
+};
+
+const DEFAULT_VOLATILITY_LOOKBACK_DAYS = 20;
+
+// Standard deviation of simple daily returns
+const dailyReturnVolatility = (closes: number[]): number | null => {
+    if (closes.length < 3) return null;
+    const returns: number[] = [];
+    for (let i = 1; i < closes.length; i++) {
+        returns.push(closes[i] / closes[i - 1] - 1);
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    return Math.sqrt(variance);
+};
+
+// Scales raw scores so they sum to 1, dropping non-positive scores
+const normalizeScores = (scores: Record<string, number>): TargetAllocation => {
+    const positive = Object.entries(scores).filter(([, score]) => score > 0);
+    const total = positive.reduce((sum, [, score]) => sum + score, 0);
+    if (total <= 0) return {};
+    return Object.fromEntries(positive.map(([symbol, score]) => [symbol, score / total]));
+};
+
+/**
+ * Computes the target weights of a WEIGHT block over its assets.
+ *  - equal: 1/N each.
+ *  - fixed: each asset's 'weight' percentage; anything under 100% stays in cash.
+ *  - inverseVolatility: proportional to 1 / stdev of daily returns over 'lookbackDays'.
+ *  - marketCap: proportional to market capitalization (ASSET 'marketCap' overrides the lookup).
+ * Assets whose data is unavailable are left out rather than failing the whole block.
+ */
+export const computeWeightAllocation = async (
+    params: WeightBlockParameters,
+    assets: AssetBlockParameters[],
+    dataSource: AllocationDataSource = liveAllocationDataSource
+): Promise<TargetAllocation> => {
+    const symbols = Array.from(new Set(assets.map(a => a.symbol)));
+    if (symbols.length === 0) return {};
+
+    switch (params.method) {
+        case 'equal':
+            return Object.fromEntries(symbols.map(symbol => [symbol, 1 / symbols.length]));
+
+        case 'fixed': {
+            const allocation: TargetAllocation = {};
+            for (const asset of assets) {
+                allocation[asset.symbol] = (allocation[asset.symbol] ?? 0) + (asset.weight ?? 0) / 100;
+            }
+            return allocation;
+        }
+
+        case 'inverseVolatility': {
+            const lookbackDays = params.lookbackDays ?? DEFAULT_VOLATILITY_LOOKBACK_DAYS;
+            const scores: Record<string, number> = {};
+            for (const symbol of symbols) {
+                const volatility = dailyReturnVolatility(await dataSource.getDailyCloses(symbol, lookbackDays));
+                if (!volatility) {
+                    console.warn(`   No volatility available for ${symbol}, leaving it out of the allocation.`);
+                    continue;
+                }
+                scores[symbol] = 1 / volatility;
+            }
+            return normalizeScores(scores);
+        }
+
+        case 'marketCap': {
+            const scores: Record<string, number> = {};
+            for (const asset of assets) {
+                const marketCap = asset.marketCap ?? await dataSource.getMarketCap(asset.symbol);
+                if (!marketCap) {
+                    console.warn(`   No market cap available for ${asset.symbol}, leaving it out of the allocation.`);
+                    continue;
+                }
+                scores[asset.symbol] = marketCap;
+            }
+            return normalizeScores(scores);
+        }
+
+        default: {
+            // Stored parameters are validated on write; anything else is a method added without a case here
+            const unsupported: never = params.method;
+            console.warn(`   Unsupported weighting method '${unsupported}'.`);
+            return {};
+        }
+    }
+};
+
+// Adds the weights of several WEIGHT blocks together, scaling down if they exceed 100%
+export const mergeAllocations = (base: TargetAllocation, addition: TargetAllocation): TargetAllocation => {
+    const merged: TargetAllocation = { ...base };
+    for (const [symbol, weight] of Object.entries(addition)) {
+        merged[symbol] = (merged[symbol] ?? 0) + weight;
+    }
+    const total = Object.values(merged).reduce((sum, w) => sum + w, 0);
+    if (total > 1 + 1e-9) {
+        for (const symbol of Object.keys(merged)) {
+            merged[symbol] = merged[symbol] / total;
+        }
+    }
+    return merged;
+};
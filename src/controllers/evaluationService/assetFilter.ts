@@ -0,0 +1,68 @@
+// src/controllers/evaluationService/assetFilter.ts
+import { RSI, SMA, EMA } from 'technicalindicators';
+import { AssetBlockParameters, FilterBlockParameters } from '../strategyAPI/strategyApiTypes';
+import { AllocationDataSource, liveAllocationDataSource } from './allocation';
+
+const DEFAULT_FILTER_PERIOD = 20;
+
+const last = (values: number[]): number | null => values.length > 0 ? values[values.length - 1] : null;
+
+// Computes the ranking metric from daily closes (oldest first); null when there is not enough history
+const computeMetric = (metric: FilterBlockParameters['metric'], closes: number[], period: number): number | null => {
+    if (closes.length === 0) return null;
+
+    switch (metric) {
+        case 'price':
+            return last(closes);
+        case 'momentum': {
+            if (closes.length < period + 1) return null;
+            const start = closes[closes.length - 1 - period];
+            return start > 0 ? last(closes)! / start - 1 : null;
+        }
+        case 'volatility': {
+            if (closes.length < period + 1) return null;
+            const window = closes.slice(-(period + 1));
+            const returns = window.slice(1).map((close, i) => close / window[i] - 1);
+            const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+            return Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(returns.length - 1, 1));
+        }
+        case 'rsi':
+            return last(RSI.calculate({ period, values: closes }));
+        case 'sma':
+            return last(SMA.calculate({ period, values: closes }));
+        case 'ema':
+            return last(EMA.calculate({ period, values: closes }));
+        default:
+            return null;
+    }
+};
+
+/**
+ * Ranks the assets under a FILTER block by its metric and keeps the top/bottom 'count'.
+ * Assets without enough history for the metric are dropped before ranking.
+ */
+export const filterAssets = async (
+    params: FilterBlockParameters,
+    assets: AssetBlockParameters[],
+    dataSource: AllocationDataSource = liveAllocationDataSource
+): Promise<AssetBlockParameters[]> => {
+    const period = params.period ?? DEFAULT_FILTER_PERIOD;
+    // RSI/EMA need a warm-up period on top of the window itself
+    const lookbackDays = ['rsi', 'ema'].includes(params.metric) ? period * 3 : period;
+
+    const scored: { asset: AssetBlockParameters; score: number }[] = [];
+    for (const asset of assets) {
+        const closes = await dataSource.getDailyCloses(asset.symbol, lookbackDays);
+        const score = computeMetric(params.metric, closes, period);
+        if (score === null || isNaN(score)) {
+            console.warn(`   Not enough history to compute ${params.metric}(${period}) for ${asset.symbol}, dropping it from the filter.`);
+            continue;
+        }
+        scored.push({ asset, score });
+    }
+
+    scored.sort((a, b) => params.select === 'top' ? b.score - a.score : a.score - b.score);
+    const selected = scored.slice(0, params.count);
+    console.log(`   Filter ${params.select} ${params.count} by ${params.metric}(${period}): ${selected.map(s => `${s.asset.symbol}=${s.score.toFixed(4)}`).join(', ') || 'none'}`);
+    return selected.map(s => s.asset);
+};
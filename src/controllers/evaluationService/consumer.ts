@@ -2,6 +2,7 @@
 import { getRedisClient } from '../../utils/redisClient';
 import { STREAM_KEY } from '../scheduler/redisStream'; // Assuming this path is correct
 import { evaluateStrategiesForIndicator } from './evaluator';
+import { PoisonMessageError, StreamConsumerConfig, StreamPayload, processStreamMessage, retryPendingMessages, recoverStuckMessages } from '../scheduler/streamRetry';
 
 const GROUP_NAME = 'evaluation_group';
 const CONSUMER_NAME = `evaluator_${process.pid}`;
@@ -22,12 +23,45 @@ async function setupConsumerGroup() {
     }
 }
 
+// Evaluates the strategies reading the updated indicator; throws so failures are retried (see streamRetry)
+export const handleIndicatorUpdate = async (messageId: string, payload: StreamPayload): Promise<void> => {
+    const update: Record<string, any> = payload;
+
+    // --- *** PARSE PARAMETERS *** ---
+    if (update.parameters && typeof update.parameters === 'string') {
+        try {
+            update.parameters = JSON.parse(update.parameters);
+        } catch (parseError: any) {
+            // Retrying cannot fix the payload, dead-letter it right away
+            throw new PoisonMessageError(`Invalid parameters JSON '${update.parameters}': ${parseError.message}`);
+        }
+    }
+    // --- *** END PARSE PARAMETERS *** ---
+
+    console.log(`Consumer ${CONSUMER_NAME} received message ${messageId}. Processing payload...`);
+
+    // Now update.parameters should be an object if it was a valid JSON string
+    await evaluateStrategiesForIndicator(update);
+};
+
+const consumerConfig: StreamConsumerConfig = {
+    stream: STREAM_KEY,
+    group: GROUP_NAME,
+    consumer: CONSUMER_NAME,
+    handle: handleIndicatorUpdate,
+};
+
 export const startConsumer = async () => {
     await setupConsumerGroup();
     console.log(`Consumer ${CONSUMER_NAME} starting to listen...`);
 
     while (true) {
         try {
+            // Failed messages whose backoff has elapsed go first
+            await retryPendingMessages(consumerConfig);
+            // Messages stranded by crashed or restarted consumers, checked periodically
+            await recoverStuckMessages(consumerConfig);
+
             const response = await redisClient.xReadGroup(
                 GROUP_NAME,
                 CONSUMER_NAME,
@@ -48,46 +82,8 @@ export const startConsumer = async () => {
                              continue;
                         }
 
-                        // --- *** PARSE PARAMETERS *** ---
-                        if (payload.parameters && typeof payload.parameters === 'string') {
-                          try {
-                            payload.parameters = JSON.parse(payload.parameters);
-                          } catch (parseError) {
-                            console.error(`Error parsing parameters for message ${messageId}. Parameters string: '${payload.parameters}'. Error:`, parseError);
-                            // Decide how to handle: skip, log, move to DLQ?
-                            // For now, acknowledge and skip processing this message to avoid loop
-                            console.error(`Skipping message ${messageId} due to parameter parsing error.`);
-                            await redisClient.xAck(STREAM_KEY, GROUP_NAME, messageId);
-                            continue; // Skip to the next message
-                          }
-                        } else if (payload.parameters && typeof payload.parameters !== 'object') {
-                            // Handle cases where parameters is present but neither string nor object (unexpected)
-                            console.error(`Unexpected type for parameters in message ${messageId}: ${typeof payload.parameters}. Skipping.`);
-                            await redisClient.xAck(STREAM_KEY, GROUP_NAME, messageId);
-                            continue;
-                        }
-                        // --- *** END PARSE PARAMETERS *** ---
-
-
-                        console.log(`Consumer ${CONSUMER_NAME} received message ${messageId}. Processing payload...`);
-
-                        try {
-                            // Now payload.parameters should be an object if it was a valid JSON string
-                            await evaluateStrategiesForIndicator(payload);
-
-                            await redisClient.xAck(STREAM_KEY, GROUP_NAME, messageId);
-                            console.log(`Acknowledged message ${messageId}`);
-                        } catch (processingError) {
-                            console.error(`Error processing message ${messageId}:`, processingError);
-                            // Consider more robust error handling (e.g., dead-letter queue)
-                            // If the error is persistent (like the Prisma validation error),
-                            // NOT acknowledging here could lead to infinite retries.
-                            // It might be better to acknowledge after a few tries or log and acknowledge immediately.
-                            // For now, leaving it unacknowledged might cause retries.
-                             // Let's acknowledge to prevent loops for validation errors:
-                             console.error(`Acknowledging message ${messageId} despite processing error to prevent loop.`);
-                             await redisClient.xAck(STREAM_KEY, GROUP_NAME, messageId);
-                        }
+                        // Acknowledged once evaluated, left pending for a retry or dead-lettered otherwise
+                        await processStreamMessage(consumerConfig, messageId, payload);
                     }
                 }
             }
@@ -96,4 +92,4 @@ export const startConsumer = async () => {
             await new Promise(resolve => setTimeout(resolve, 5000));
         }
     }
-};
\ No newline at end of file
+};
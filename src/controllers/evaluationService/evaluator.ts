@@ -5,122 +5,804 @@ import {
     Condition, // Keep Condition type
     StrategyBlock, // Add StrategyBlock type
     Action,      // Keep Action type
-    StrategyBlockType, ActionType // Import needed enums
+    StrategyBlockType, BlockBranch, ActionType, ConditionQualifier // Import needed enums
 } from '@prisma/client';
 import { getCachedIndicatorEntry, generateCacheKey } from '../technicalIndicators/cache';
 import { publishActionRequired } from '../scheduler/redisStream';
+import { GroupBlockParameters, AssetBlockParameters } from '../strategyAPI/strategyApiTypes';
+import { buildBlockTree, BlockTreeNode } from '../strategyAPI/blockTree';
+import {
+    isGroupBlockParameters, isWeightBlockParameters, isAssetBlockParameters, isFilterBlockParameters
+} from '../strategyAPI/blockValidation';
+import {
+    TargetAllocation, AllocationDataSource, liveAllocationDataSource,
+    computeWeightAllocation, mergeAllocations
+} from './allocation';
+import { filterAssets } from './assetFilter';
+import { recordStrategyRun } from './runHistory';
+import { applyFiringModes, recordFirings } from './firingModes';
+import { MULTI_OUTPUT_INDICATOR_KEYS } from '../technicalIndicators/localIndicators';
+import {
+    compileExpressionCondition, evaluateExpression, isExpressionCondition, CompiledExpressionCondition,
+    EXPRESSION_INDICATOR_TYPE
+} from './expression';
 
 const prisma = new PrismaClient();
 
-// --- Helper functions remain the same ---
-const getLatestIndicatorValue = (indicatorData: any): number | null => {
-    if (!indicatorData || typeof indicatorData !== 'object') return null;
-    const dates = Object.keys(indicatorData).sort().reverse();
-    if (dates.length === 0) return null;
-    const latestDate = dates[0];
-    // Handle cases where the latest data point might be missing or not a number
-    const dataPoint = indicatorData[latestDate];
-    if (!dataPoint || typeof dataPoint !== 'object') return null;
-    // Find the first key whose value is numeric (common in AlphaVantage)
-    const valueKey = Object.keys(dataPoint).find(k => !isNaN(parseFloat(dataPoint[k])));
-    return valueKey ? parseFloat(dataPoint[valueKey]) : null;
+interface IndicatorPoint {
+    timestamp: string;
+    value: number;
+}
+
+// Where condition values come from: the Redis indicator cache when live, precomputed series in a backtest.
+// Data is Alpha Vantage-shaped ({ [timestamp]: { [key]: value } }), null when none is available.
+export interface IndicatorDataSource {
+    getIndicatorData: (condition: Condition) => Promise<any | null>;
+    getCondition: (conditionId: string) => Promise<Condition | null>; // Resolves targetIndicatorId references
+}
+
+export const cachedIndicatorDataSource: IndicatorDataSource = {
+    getCondition: (conditionId) => prisma.condition.findUnique({ where: { id: conditionId } }),
+    getIndicatorData: async (condition) => {
+        const cacheKey = generateCacheKey({
+            indicatorType: condition.indicatorType,
+            symbol: condition.symbol,
+            interval: condition.interval,
+            parameters: condition.parameters,
+            dataSource: condition.dataSource,
+        });
+        const cachedEntry = await getCachedIndicatorEntry<any>(cacheKey);
+        return cachedEntry?.data ?? null;
+    },
+};
+
+// Extracts the numeric series (oldest first) from Alpha Vantage-shaped data: { [timestamp]: { [key]: value } }
+// Reads the dataKey series when one is given, otherwise the first numeric key (single-output indicators).
+const getIndicatorSeries = (indicatorData: any, dataKey?: string | null): IndicatorPoint[] => {
+    if (!indicatorData || typeof indicatorData !== 'object') return [];
+    const points: IndicatorPoint[] = [];
+    for (const timestamp of Object.keys(indicatorData).sort()) {
+        const dataPoint = indicatorData[timestamp];
+        if (!dataPoint || typeof dataPoint !== 'object') continue;
+        const valueKey = dataKey
+            ? (isNaN(parseFloat(dataPoint[dataKey])) ? undefined : dataKey)
+            : Object.keys(dataPoint).find(k => !isNaN(parseFloat(dataPoint[k])));
+        if (valueKey) {
+            points.push({ timestamp, value: parseFloat(dataPoint[valueKey]) });
+        }
+    }
+    return points;
+};
+
+// Result of evaluating one condition, also what the run history records
+interface ConditionOutcome {
+    met: boolean | null; // Null when the condition could not be evaluated (no data, bad expression, ...)
+    currentValue: number | null;
+    previousValue: number | null;
+    targetValue: number | null;
+    note?: string; // Why the condition could not be evaluated, when it could not
+}
+
+// Logs why a condition could not be evaluated and returns an outcome that is neither met nor unmet
+const unevaluable = (note: string, values: Partial<ConditionOutcome> = {}): ConditionOutcome => {
+    console.warn(`   ${note}`);
+    return { currentValue: null, previousValue: null, targetValue: null, ...values, met: null, note };
+};
+
+const isCrossoverOperator = (operator: Operator): boolean =>
+    operator === Operator.CROSSES_ABOVE || operator === Operator.CROSSES_BELOW;
+
+// Level comparison of a single value against a target
+const compareValues = (operator: Operator, value: number, target: number): boolean => {
+    switch (operator) {
+        case Operator.GREATER_THAN:
+            return value > target;
+        case Operator.LESS_THAN:
+            return value < target;
+        case Operator.EQUALS:
+            return Math.abs(value - target) < 0.0001; // Epsilon comparison
+        case Operator.NOT_EQUALS:
+            return Math.abs(value - target) >= 0.0001;
+        case Operator.GREATER_THAN_OR_EQUAL:
+            return value >= target;
+        case Operator.LESS_THAN_OR_EQUAL:
+            return value <= target;
+        default:
+            return false;
+    }
 };
 
-const getPreviousIndicatorValue = (indicatorData: any): number | null => {
-     if (!indicatorData || typeof indicatorData !== 'object') return null;
-     const dates = Object.keys(indicatorData).sort().reverse();
-     if (dates.length < 2) return null;
-     const previousDate = dates[1];
-     const dataPoint = indicatorData[previousDate];
-      if (!dataPoint || typeof dataPoint !== 'object') return null;
-     const valueKey = Object.keys(dataPoint).find(k => !isNaN(parseFloat(dataPoint[k])));
-     return valueKey ? parseFloat(dataPoint[valueKey]) : null;
+// Crossover between two consecutive points, each point compared against its own target value
+const evaluateCrossover = (
+    operator: Operator,
+    previousValue: number,
+    previousTarget: number,
+    currentValue: number,
+    currentTarget: number
+): boolean => {
+    if (operator === Operator.CROSSES_ABOVE) {
+        return previousValue <= previousTarget && currentValue > currentTarget;
+    }
+    return previousValue >= previousTarget && currentValue < currentTarget;
 };
 
-// --- Revised evaluateCondition to handle potential targetIndicator ---
+// Fetches the series of the indicator a condition compares against
+const loadTargetIndicatorSeries = async (
+    condition: Condition,
+    indicatorData: IndicatorDataSource
+): Promise<{ targetCondition: Condition; targetSeries: IndicatorPoint[] } | null> => {
+    const targetCondition = await indicatorData.getCondition(condition.targetIndicatorId!);
+    if (!targetCondition) {
+        console.warn(`Target indicator condition ${condition.targetIndicatorId} not found for comparison in condition ${condition.id}`);
+        return null; // Cannot evaluate if target is missing
+    }
+    if (MULTI_OUTPUT_INDICATOR_KEYS[targetCondition.indicatorType] && !targetCondition.dataKey) {
+        console.warn(`   Target Indicator (${targetCondition.id}): ${targetCondition.indicatorType} has no dataKey. Evaluation fails.`);
+        return null;
+    }
+    const targetData = await indicatorData.getIndicatorData(targetCondition);
+
+    if (!targetData) {
+        console.warn(`   Target Indicator (${targetCondition.id}): No data available for condition ${condition.id}. Evaluation fails.`);
+        return null;
+    }
+    const targetSeries = getIndicatorSeries(targetData, targetCondition.dataKey);
+    if (targetSeries.length === 0) {
+        console.warn(`   Target Indicator (${targetCondition.id}): Could not extract any ${targetCondition.dataKey ?? ''} values. Evaluation fails.`);
+        return null;
+    }
+    return { targetCondition, targetSeries };
+};
+
+/**
+ * Indicator-vs-indicator crossover. Both series are matched on timestamps: the latest bar of the
+ * primary series must exist in the target series, and the previous point is the most recent earlier
+ * timestamp both series share. Series with different intervals cannot be aligned and never cross.
+ */
+const evaluateIndicatorCrossover = (
+    condition: Condition,
+    targetCondition: Condition,
+    series: IndicatorPoint[],
+    targetSeries: IndicatorPoint[]
+): ConditionOutcome => {
+    const current = series[series.length - 1];
+    const values = { currentValue: current.value, previousValue: series[series.length - 2]?.value ?? null };
+
+    if (condition.interval !== targetCondition.interval) {
+        return unevaluable(`Condition ${condition.id}: cannot evaluate ${condition.operator} between intervals ${condition.interval} and ${targetCondition.interval}.`, values);
+    }
+
+    const targetByTimestamp = new Map(targetSeries.map(p => [p.timestamp, p.value]));
+    if (!targetByTimestamp.has(current.timestamp)) {
+        return unevaluable(`Condition ${condition.id}: target indicator has no bar at ${current.timestamp} (latest bar).`, values);
+    }
+    const targetValue = targetByTimestamp.get(current.timestamp)!;
+
+    // Walk back to the most recent earlier bar present in both series
+    let previousIndex = series.length - 2;
+    while (previousIndex >= 0 && !targetByTimestamp.has(series[previousIndex].timestamp)) {
+        previousIndex--;
+    }
+    if (previousIndex < 0) {
+        return unevaluable(`Condition ${condition.id}: no earlier bar shared with the target indicator.`, { ...values, targetValue });
+    }
+    let note: string | undefined = undefined;
+    if (previousIndex !== series.length - 2) {
+        note = `${series.length - 2 - previousIndex} bar(s) missing from the target indicator, compared against ${series[previousIndex].timestamp}`;
+        console.warn(`   Condition ${condition.id}: ${note}.`);
+    }
+
+    const previous = series[previousIndex];
+    const met = evaluateCrossover(
+        condition.operator,
+        previous.value,
+        targetByTimestamp.get(previous.timestamp)!,
+        current.value,
+        targetValue
+    );
+    return { met, currentValue: current.value, previousValue: previous.value, targetValue, note };
+};
+
+/**
+ * Conditions with a qualifier look at the last lookbackBars points of the series:
+ * CONSECUTIVE/WITHIN apply the comparison (or crossover) to every/any of those bars, a target indicator being
+ * matched on timestamps; RISING/FALLING check the value moved the same way on each of those bars.
+ */
+const evaluateQualifiedCondition = async (
+    condition: Condition,
+    series: IndicatorPoint[],
+    indicatorData: IndicatorDataSource
+): Promise<ConditionOutcome> => {
+    const lookback = condition.lookbackBars ?? 0;
+    const current = series[series.length - 1];
+    const values = { currentValue: current.value, previousValue: series[series.length - 2]?.value ?? null };
+    if (!Number.isInteger(lookback) || lookback < 1) {
+        return unevaluable(`Condition ${condition.id}: ${condition.qualifier} needs a positive lookbackBars.`, values);
+    }
+
+    if (condition.qualifier === ConditionQualifier.RISING || condition.qualifier === ConditionQualifier.FALLING) {
+        if (series.length < lookback + 1) {
+            return unevaluable(`Condition ${condition.id}: ${condition.qualifier} over ${lookback} bars needs ${lookback + 1} values, got ${series.length}.`, values);
+        }
+        const rising = condition.qualifier === ConditionQualifier.RISING;
+        let met = true;
+        for (let i = series.length - lookback; i < series.length; i++) {
+            const change = series[i].value - series[i - 1].value;
+            if (rising ? change <= 0 : change >= 0) {
+                met = false;
+                break;
+            }
+        }
+        // previousValue is where the run started, lookbackBars bars ago
+        return { met, currentValue: current.value, previousValue: series[series.length - 1 - lookback].value, targetValue: null };
+    }
+
+    // Target at each timestamp: the constant targetValue, or the target indicator's value at the same bar
+    let targetAt: (timestamp: string) => number | undefined;
+    if (condition.targetIndicatorId) {
+        const target = await loadTargetIndicatorSeries(condition, indicatorData);
+        if (!target) {
+            return unevaluable(`Condition ${condition.id}: target indicator ${condition.targetIndicatorId} has no usable data.`, values);
+        }
+        if (target.targetCondition.interval !== condition.interval) {
+            return unevaluable(`Condition ${condition.id}: cannot look back across intervals ${condition.interval} and ${target.targetCondition.interval}.`, values);
+        }
+        const targetByTimestamp = new Map(target.targetSeries.map(p => [p.timestamp, p.value]));
+        targetAt = (timestamp) => targetByTimestamp.get(timestamp);
+    } else if (condition.targetValue !== null && condition.targetValue !== undefined) {
+        const targetValue = condition.targetValue;
+        targetAt = () => targetValue;
+    } else {
+        return unevaluable(`Condition ${condition.id} has neither targetValue nor targetIndicatorId.`, values);
+    }
+
+    const crossover = isCrossoverOperator(condition.operator);
+    const needed = crossover ? lookback + 1 : lookback;
+    if (series.length < needed) {
+        return unevaluable(`Condition ${condition.id}: ${condition.qualifier} over ${lookback} bars needs ${needed} values, got ${series.length}.`, values);
+    }
+
+    // Whether the comparison holds at series[i]; crossovers compare series[i - 1] and series[i]
+    let missingTargets = 0;
+    const metAt = (i: number): boolean => {
+        const point = series[i];
+        const target = targetAt(point.timestamp);
+        const previousTarget = crossover ? targetAt(series[i - 1].timestamp) : undefined;
+        if (target === undefined || (crossover && previousTarget === undefined)) {
+            missingTargets++;
+            return false;
+        }
+        return crossover
+            ? evaluateCrossover(condition.operator, series[i - 1].value, previousTarget!, point.value, target)
+            : compareValues(condition.operator, point.value, target);
+    };
+
+    const results: boolean[] = [];
+    for (let i = series.length - lookback; i < series.length; i++) {
+        results.push(metAt(i));
+    }
+    const met = condition.qualifier === ConditionQualifier.CONSECUTIVE ? results.every(Boolean) : results.some(Boolean);
+
+    let note: string | undefined = undefined;
+    if (missingTargets > 0) {
+        note = `target indicator has no value on ${missingTargets} of the last ${lookback} bars, counted as not met`;
+        console.warn(`   Condition ${condition.id}: ${note}.`);
+    }
+    return { met, ...values, targetValue: targetAt(current.timestamp) ?? null, note };
+};
+
+// Evaluates a condition against its own series (oldest first) and its target value or target indicator
 const evaluateSingleCondition = async (
     condition: Condition,
-    currentValue: number,
-    previousValue: number | null
-): Promise<boolean> => {
+    series: IndicatorPoint[],
+    indicatorData: IndicatorDataSource
+): Promise<ConditionOutcome> => {
+    const current = series[series.length - 1];
+    const previous = series.length > 1 ? series[series.length - 2] : null;
+    if (!current) {
+        return unevaluable(`Condition ${condition.id}: no values to evaluate.`);
+    }
+    const values = { currentValue: current.value, previousValue: previous?.value ?? null };
+
+    if (!Object.values(Operator).includes(condition.operator)) {
+        return unevaluable(`Unsupported operator: ${condition.operator} in condition ${condition.id}`, values);
+    }
 
-    let target: number | null = null;
+    if (condition.qualifier) {
+        return evaluateQualifiedCondition(condition, series, indicatorData);
+    }
 
     if (condition.targetIndicatorId) {
-        // --- Fetch data for the target indicator ---
-        const targetCondition = await prisma.condition.findUnique({
-            where: { id: condition.targetIndicatorId }
-        });
-        if (!targetCondition) {
-            console.warn(`Target indicator condition ${condition.targetIndicatorId} not found for comparison in condition ${condition.id}`);
-            return false; // Cannot evaluate if target is missing
-        }
-        // Generate cache key for the target indicator
-        const targetCacheKeyParams = {
-            indicatorType: targetCondition.indicatorType,
-            symbol: targetCondition.symbol,
-            interval: targetCondition.interval,
-            parameters: targetCondition.parameters,
-            dataSource: targetCondition.dataSource,
-            // dataKey: targetCondition.dataKey, // Add if needed
+        const target = await loadTargetIndicatorSeries(condition, indicatorData);
+        if (!target) {
+            return unevaluable(`Condition ${condition.id}: target indicator ${condition.targetIndicatorId} has no usable data.`, values);
+        }
+
+        if (isCrossoverOperator(condition.operator)) {
+            return evaluateIndicatorCrossover(condition, target.targetCondition, series, target.targetSeries);
+        }
+        // Level comparisons use the latest value of each indicator
+        const targetValue = target.targetSeries[target.targetSeries.length - 1].value;
+        return { ...values, targetValue, met: compareValues(condition.operator, current.value, targetValue) };
+    }
+
+    if (condition.targetValue === null || condition.targetValue === undefined) {
+        return unevaluable(`Condition ${condition.id} has neither targetValue nor targetIndicatorId.`, values);
+    }
+    const targetValue = condition.targetValue;
+
+    if (isCrossoverOperator(condition.operator)) {
+        if (!previous) {
+            return unevaluable(`Condition ${condition.id}: a crossover needs at least two values.`, { ...values, targetValue });
+        }
+        return { ...values, targetValue, met: evaluateCrossover(condition.operator, previous.value, targetValue, current.value, targetValue) };
+    }
+    return { ...values, targetValue, met: compareValues(condition.operator, current.value, targetValue) };
+};
+
+/**
+ * EXPRESSION conditions: both sides are computed from the series of their references. Level comparisons use
+ * the latest value of every reference (like indicator-vs-indicator comparisons); crossovers use the latest two
+ * timestamps all references share.
+ */
+const evaluateExpressionCondition = async (
+    condition: Condition,
+    indicatorData: IndicatorDataSource
+): Promise<ConditionOutcome> => {
+    let compiled: CompiledExpressionCondition;
+    try {
+        compiled = compileExpressionCondition(condition);
+    } catch (error: any) {
+        return unevaluable(`Condition ${condition.id}: invalid expression: ${error.message}`);
+    }
+    if (!compiled.right && (condition.targetValue === null || condition.targetValue === undefined)) {
+        return unevaluable(`Condition ${condition.id} has neither targetExpression nor targetValue.`);
+    }
+
+    const seriesByKey = new Map<string, Map<string, number>>();
+    for (const { key, condition: referenceCondition } of compiled.references) {
+        const data = await indicatorData.getIndicatorData(referenceCondition);
+        const series = getIndicatorSeries(data, referenceCondition.dataKey);
+        if (series.length === 0) {
+            return unevaluable(`Condition ${condition.id}: no data for ${referenceCondition.indicatorType} ${referenceCondition.symbol || ''} ${referenceCondition.dataKey ?? ''} in the expression.`);
+        }
+        seriesByKey.set(key, new Map(series.map(p => [p.timestamp, p.value])));
+    }
+
+    // Both sides at a timestamp (latest value of each reference when none is given)
+    const sidesAt = (timestamp?: string): { left: number; right: number } => {
+        const values = new Map<string, number>();
+        for (const [key, series] of seriesByKey) {
+            const value = timestamp ? series.get(timestamp) : [...series.values()].pop();
+            if (value !== undefined) values.set(key, value);
+        }
+        return {
+            left: evaluateExpression(compiled.left, values),
+            right: compiled.right ? evaluateExpression(compiled.right, values) : condition.targetValue!,
         };
-        const targetCacheKey = generateCacheKey(targetCacheKeyParams);
-        const targetCachedEntry = await getCachedIndicatorEntry<any>(targetCacheKey);
+    };
 
-        if (!targetCachedEntry) {
-            console.warn(`   Target Indicator (${targetCacheKey}): Data not found in cache for condition ${condition.id}. Evaluation fails.`);
-            return false;
+    if (!isCrossoverOperator(condition.operator)) {
+        const { left, right } = sidesAt();
+        if (!Number.isFinite(left) || !Number.isFinite(right)) {
+            return unevaluable(`Condition ${condition.id}: expression has no finite value (division by zero?).`);
         }
-        target = getLatestIndicatorValue(targetCachedEntry.data);
-        if (target === null) {
-            console.warn(`   Target Indicator (${targetCacheKey}): Could not extract latest value. Evaluation fails.`);
-            return false;
+        return { met: compareValues(condition.operator, left, right), currentValue: left, previousValue: null, targetValue: right };
+    }
+
+    // Timestamps present in every reference's series, oldest first
+    const [firstSeries, ...otherSeries] = [...seriesByKey.values()];
+    const shared = firstSeries
+        ? [...firstSeries.keys()].filter(t => otherSeries.every(series => series.has(t))).sort()
+        : [];
+    if (shared.length < 2) {
+        return unevaluable(`Condition ${condition.id}: a crossover needs two timestamps shared by every reference of the expression.`);
+    }
+    const current = sidesAt(shared[shared.length - 1]);
+    const previous = sidesAt(shared[shared.length - 2]);
+    if (![current.left, current.right, previous.left, previous.right].every(Number.isFinite)) {
+        return unevaluable(`Condition ${condition.id}: expression has no finite value (division by zero?).`);
+    }
+    return {
+        met: evaluateCrossover(condition.operator, previous.left, previous.right, current.left, current.right),
+        currentValue: current.left,
+        previousValue: previous.left,
+        targetValue: current.right,
+    };
+};
+
+
+// --- Block tree types used during evaluation ---
+export type EvaluationBlock = BlockTreeNode<StrategyBlock & {
+    condition: Condition | null;
+    action: Action | null;
+}>;
+
+// An action reached during evaluation; 'symbol' is set when the action fans out over ASSET/FILTER children
+interface PendingAction {
+    action: Action;
+    blockId: string;
+    symbol?: string;
+}
+
+// One evaluated condition, in evaluation order
+export interface ConditionTraceEntry extends ConditionOutcome {
+    blockId: string;
+    conditionId: string;
+    indicatorType: string;
+    symbol: string | null;
+    operator: Operator;
+}
+
+// One action published to the action stream by an evaluation
+export interface ActionDispatchEntry {
+    actionId: string;
+    blockId: string;
+    actionType: ActionType;
+    parameters: Record<string, any>;
+    messageId: string | null; // Redis stream id of the ActionRequired message
+    suppressedReason?: string | null; // Set when the firing mode held the action back, it is then not published
+}
+
+// One visited block, in visiting order (pre-order). Blocks on branches that were not taken are absent.
+export interface BlockTraceEntry {
+    blockId: string;
+    blockType: StrategyBlockType;
+    parentId: string | null;
+    branch: BlockBranch | null;
+    held: boolean | null; // Null until the block and its subtree have been evaluated, or when it could not be
+    condition?: ConditionTraceEntry; // CONDITION_IF: the values its condition was evaluated with
+    detail?: Record<string, any>; // Block-specific summary (group counts, weights, queued symbols)
+}
+
+export interface StrategyEvaluationResult {
+    strategyId: string;
+    dryRun: boolean;
+    blocks: BlockTraceEntry[];
+    conditions: ConditionTraceEntry[];
+    actions: ActionDispatchEntry[]; // In a dry run, the actions that would have been published
+    targetAllocation: TargetAllocation | null;
+}
+
+export interface EvaluateStrategyOptions {
+    dryRun?: boolean; // Evaluate and trace only: nothing is published and no run is recorded
+}
+
+interface EvaluationContext {
+    strategyId: string;
+    triggeringIndicator: Record<string, any>;
+    conditionResults: Map<string, boolean | null>; // Memoised per evaluation run, a condition can be linked to several blocks
+    conditionTrace: ConditionTraceEntry[];
+    blockTrace: BlockTraceEntry[];
+    pendingActions: PendingAction[]; // Actions reached on branches whose conditions held, in tree order
+    unreachedActionIds: Set<string>; // Actions on branches or in groups that a condition or group decided against
+    targetAllocation: TargetAllocation | null; // Combined weights of the WEIGHT blocks reached, consumed by REBALANCE
+    allocationIncomplete: boolean; // A WEIGHT block reached could not be evaluated, REBALANCE is then skipped
+    indicatorData: IndicatorDataSource;
+    allocationData: AllocationDataSource;
+    verbose: boolean; // Log every condition/group/weight result (off for backtests, which evaluate every bar)
+}
+
+// Loads every block of a strategy in one query and assembles the tree in memory
+export const loadStrategyBlockTree = async (strategyId: string): Promise<EvaluationBlock | null> => {
+    const strategy = await prisma.strategy.findUnique({
+        where: { id: strategyId },
+        select: { rootBlockId: true }
+    });
+    if (!strategy) return null;
+
+    const blocks = await prisma.strategyBlock.findMany({
+        where: { strategyId: strategyId },
+        include: {
+            condition: true,
+            action: true
+        },
+        orderBy: {
+            order: 'asc'
         }
-        // --- End Fetch data for target indicator ---
-    } else if (condition.targetValue !== null && condition.targetValue !== undefined) {
-        target = condition.targetValue;
+    });
+
+    return buildBlockTree(blocks, strategy.rootBlockId);
+};
+
+// Resolves the cached indicator data for a condition and evaluates it (memoised per run), null when it cannot be
+const evaluateConditionOfBlock = async (
+    block: EvaluationBlock,
+    condition: Condition,
+    ctx: EvaluationContext
+): Promise<boolean | null> => {
+    if (ctx.conditionResults.has(condition.id)) {
+        return ctx.conditionResults.get(condition.id)!;
+    }
+
+    let outcome: ConditionOutcome;
+    const data = isExpressionCondition(condition) ? null : await ctx.indicatorData.getIndicatorData(condition);
+    if (isExpressionCondition(condition)) {
+        outcome = await evaluateExpressionCondition(condition, ctx.indicatorData);
+        if (ctx.verbose) {
+            console.log(`   Condition ${condition.id} (${condition.expression} ${condition.operator} ${condition.targetExpression ?? condition.targetValue}): Current=${outcome.currentValue}, Target=${outcome.targetValue ?? 'N/A'} -> Met: ${outcome.met}`);
+        }
+    } else if (!data) {
+        outcome = unevaluable(`Condition ${condition.id} (${condition.indicatorType} ${condition.symbol || ''} ${condition.interval}): No indicator data available.`);
+    } else if (MULTI_OUTPUT_INDICATOR_KEYS[condition.indicatorType] && !condition.dataKey) {
+        // Reading "the first numeric key" of a multi-output indicator would silently pick an arbitrary series
+        outcome = unevaluable(`Condition ${condition.id} (${condition.indicatorType}): no dataKey, expected one of ${MULTI_OUTPUT_INDICATOR_KEYS[condition.indicatorType].join(', ')}.`);
     } else {
-        console.warn(`Condition ${condition.id} has neither targetValue nor targetIndicatorId.`);
-        return false; // Cannot evaluate without a target
+        const series = getIndicatorSeries(data, condition.dataKey);
+        if (series.length === 0) {
+            outcome = unevaluable(`Condition ${condition.id} (${condition.indicatorType} ${condition.symbol || ''} ${condition.interval}): Could not extract latest ${condition.dataKey ?? ''} value.`);
+        } else {
+            outcome = await evaluateSingleCondition(condition, series, ctx.indicatorData);
+            if (ctx.verbose) {
+                const targetDesc = condition.targetIndicatorId
+                    ? `TargetIndicator(${condition.targetIndicatorId})`
+                    : `TargetValue(${condition.targetValue})`;
+                console.log(`   Condition ${condition.id} (${condition.indicatorType} ${condition.symbol || ''} ${condition.operator} ${targetDesc}): Current=${outcome.currentValue}, Prev=${outcome.previousValue ?? 'N/A'}, Target=${outcome.targetValue ?? 'N/A'} -> Met: ${outcome.met}`);
+            }
+        }
     }
 
-    // Now perform the comparison
-    switch (condition.operator) {
-        case Operator.GREATER_THAN:
-            return currentValue > target;
-        case Operator.LESS_THAN:
-            return currentValue < target;
-        case Operator.EQUALS:
-            return Math.abs(currentValue - target) < 0.0001; // Epsilon comparison
-        case Operator.NOT_EQUALS:
-             return Math.abs(currentValue - target) >= 0.0001;
-        case Operator.GREATER_THAN_OR_EQUAL:
-            return currentValue >= target;
-        case Operator.LESS_THAN_OR_EQUAL:
-            return currentValue <= target;
-        case Operator.CROSSES_ABOVE:
-            if (previousValue === null) return false;
-            // If comparing against another indicator, we might need its previous value too.
-            // For simplicity now, we only support CROSSES_ABOVE/BELOW a fixed targetValue or the *current* targetIndicator value.
-            // A true indicator-vs-indicator crossover requires previous values for both.
-             if (condition.targetIndicatorId) {
-                 console.warn(`CROSSES_ABOVE/BELOW between two indicators is not fully supported without previous target value. Comparing against current target value.`);
-             }
-            return previousValue <= target && currentValue > target;
-        case Operator.CROSSES_BELOW:
-            if (previousValue === null) return false;
-             if (condition.targetIndicatorId) {
-                 console.warn(`CROSSES_ABOVE/BELOW between two indicators is not fully supported without previous target value. Comparing against current target value.`);
-             }
-            return previousValue >= target && currentValue < target;
+    ctx.conditionResults.set(condition.id, outcome.met);
+    ctx.conditionTrace.push({
+        blockId: block.id,
+        conditionId: condition.id,
+        indicatorType: condition.indicatorType,
+        symbol: condition.symbol,
+        operator: condition.operator,
+        ...outcome,
+    });
+    return outcome.met;
+};
+
+// Logs why a block could not be evaluated and notes it on the block's trace; returns the block's null result
+const unevaluableBlock = (trace: BlockTraceEntry, note: string): null => {
+    console.warn(`   ${note}`);
+    trace.detail = { ...trace.detail, note };
+    return null;
+};
+
+// GROUP parameters of a stored block, null when they are invalid
+const groupParametersOf = (block: EvaluationBlock): GroupBlockParameters | null =>
+    isGroupBlockParameters(block.parameters) ? (block.parameters ?? {}) : null;
+
+/**
+ * Combines the operand results of a GROUP block according to its parameters. Operands that could not be
+ * evaluated (null) make the group unevaluable too, unless the other operands already decide it either way.
+ */
+const combineGroupResults = (params: GroupBlockParameters, results: (boolean | null)[]): boolean | null => {
+    const metCount = results.filter(result => result === true).length;
+    const unknownCount = results.filter(result => result === null).length;
+
+    // Result with 'met' operands holding out of 'total'
+    let combine: (met: number, total: number) => boolean;
+    switch (params.operator ?? 'all') {
+        case 'all':
+            combine = (met, total) => met === total;
+            break;
+        case 'any':
+            combine = (met) => met > 0;
+            break;
+        case 'none':
+            combine = (met) => met === 0;
+            break;
+        case 'atLeast':
+            combine = (met) => met >= (params.minimum ?? 1);
+            break;
         default:
-            console.warn(`Unsupported operator: ${condition.operator} in condition ${condition.id}`);
-            return false;
+            return null; // Ruled out by isGroupBlockParameters
     }
+
+    // Decided when the unknown operands cannot change the result, whatever they turn out to be
+    const ifNoneHeld = combine(metCount, results.length);
+    const ifAllHeld = combine(metCount + unknownCount, results.length);
+    return ifNoneHeld === ifAllHeld ? ifNoneHeld : null;
 };
 
+// Actions linked anywhere in the given subtrees, which an evaluation decided not to run
+const noteUnreachedActions = (blocks: EvaluationBlock[], ctx: EvaluationContext): void => {
+    for (const block of blocks) {
+        if (block.blockType === StrategyBlockType.ACTION && block.action) {
+            ctx.unreachedActionIds.add(block.action.id);
+        }
+        noteUnreachedActions(block.children, ctx);
+    }
+};
+
+// Evaluates the children of a container block in order, returning nothing (containers never gate siblings)
+const evaluateChildren = async (block: EvaluationBlock, ctx: EvaluationContext): Promise<void> => {
+    for (const child of block.children) {
+        await evaluateBlockRecursively(child, ctx);
+    }
+};
+
+const isAssetSource = (block: EvaluationBlock): boolean =>
+    block.blockType === StrategyBlockType.ASSET || block.blockType === StrategyBlockType.FILTER;
+
+// Assets selected by ASSET/FILTER blocks, or why they could not be resolved
+type ResolvedAssets = { assets: AssetBlockParameters[] } | { invalid: string };
+
+// Expands ASSET and FILTER blocks into the list of assets they select, keeping tree order.
+// A block whose stored parameters are invalid makes the whole selection unresolvable rather than partial.
+const resolveAssets = async (blocks: EvaluationBlock[], ctx: EvaluationContext): Promise<ResolvedAssets> => {
+    const assets: AssetBlockParameters[] = [];
+    for (const block of blocks) {
+        if (block.blockType === StrategyBlockType.ASSET) {
+            if (!isAssetBlockParameters(block.parameters)) {
+                return { invalid: `ASSET block ${block.id} has invalid parameters` };
+            }
+            assets.push(block.parameters);
+        } else if (block.blockType === StrategyBlockType.FILTER) {
+            if (!isFilterBlockParameters(block.parameters)) {
+                return { invalid: `FILTER block ${block.id} has invalid parameters` };
+            }
+            const candidates = await resolveAssets(block.children, ctx);
+            if ('invalid' in candidates) return candidates;
+            assets.push(...await filterAssets(block.parameters, candidates.assets, ctx.allocationData));
+        }
+    }
+    return { assets };
+};
+
+/**
+ * Walks the block tree depth-first. Returns whether the block "held", which only matters for
+ * CONDITION_IF and GROUP blocks, null when that could not be decided; actions are collected in ctx.pendingActions when reached.
+ *  - ROOT: evaluates all children.
+ *  - CONDITION_IF: evaluates its condition, then runs its THEN children if it holds or its ELSE children if not.
+ *    A condition that cannot be evaluated runs neither branch: missing data never places the ELSE branch's orders.
+ *  - GROUP: combines its CONDITION_IF/GROUP children with its operator (all/any/none/atLeast);
+ *    the remaining children only run when the combination holds (not when it is undecided).
+ *  - WEIGHT: computes target weights over its ASSET/FILTER children and adds them to ctx.targetAllocation.
+ *  - ACTION: queues its linked action, once per selected asset if it has ASSET/FILTER children.
+ *  - FILTER / ASSET: only read through their WEIGHT or ACTION parent (see resolveAssets).
+ * Stored parameters are checked with the API's validators: blocks written before validation existed may not
+ * pass, and such a block is unevaluable (null) rather than trusted.
+ */
+const evaluateBlockRecursively = async (block: EvaluationBlock, ctx: EvaluationContext): Promise<boolean | null> => {
+    const trace: BlockTraceEntry = {
+        blockId: block.id,
+        blockType: block.blockType,
+        parentId: block.parentId,
+        branch: block.branch,
+        held: null,
+    };
+    ctx.blockTrace.push(trace);
+    trace.held = await evaluateBlock(block, ctx, trace);
+    return trace.held;
+};
+
+const evaluateBlock = async (block: EvaluationBlock, ctx: EvaluationContext, trace: BlockTraceEntry): Promise<boolean | null> => {
+    switch (block.blockType) {
+        case StrategyBlockType.ROOT:
+            await evaluateChildren(block, ctx);
+            return true;
+
+        case StrategyBlockType.CONDITION_IF: {
+            if (!block.condition) {
+                console.warn(`   CONDITION_IF block ${block.id} has no linked condition. Running neither branch.`);
+                return null;
+            }
+            const conditionMet = await evaluateConditionOfBlock(block, block.condition, ctx);
+            trace.condition = ctx.conditionTrace.find(c => c.conditionId === block.condition!.id);
+            if (conditionMet === null) {
+                return null; // The trace's condition carries the note saying why
+            }
+            // Children without an explicit branch belong to THEN
+            const branchToRun = conditionMet ? BlockBranch.THEN : BlockBranch.ELSE;
+            for (const child of block.children) {
+                if ((child.branch ?? BlockBranch.THEN) === branchToRun) {
+                    await evaluateBlockRecursively(child, ctx);
+                } else {
+                    noteUnreachedActions([child], ctx);
+                }
+            }
+            return conditionMet;
+        }
+
+        case StrategyBlockType.GROUP: {
+            // CONDITION_IF and nested GROUP children are the logical operands, the rest run when the group holds
+            const isOperand = (c: EvaluationBlock) =>
+                c.blockType === StrategyBlockType.CONDITION_IF || c.blockType === StrategyBlockType.GROUP;
+            const operandChildren = block.children.filter(isOperand);
+            const otherChildren = block.children.filter(c => !isOperand(c));
+
+            // Every operand is evaluated (no short-circuit) so its own branch still runs when it holds
+            const operandResults: (boolean | null)[] = [];
+            for (const child of operandChildren) {
+                operandResults.push(await evaluateBlockRecursively(child, ctx));
+            }
+
+            const params = groupParametersOf(block);
+            if (!params) {
+                return unevaluableBlock(trace, `Group ${block.id} has invalid parameters. Treating as unevaluable.`);
+            }
+            const operator = params.operator ?? 'all';
+            const groupMet = combineGroupResults(params, operandResults);
+            const metCount = operandResults.filter(result => result === true).length;
+            const unevaluableCount = operandResults.filter(result => result === null).length;
+            trace.detail = {
+                operator, met: metCount, operands: operandResults.length,
+                ...(unevaluableCount > 0 && { unevaluable: unevaluableCount }),
+            };
+            if (ctx.verbose) {
+                console.log(`   Group ${block.id} (${operator}): ${metCount}/${operandResults.length} children met, ${unevaluableCount} unevaluable -> Met: ${groupMet}`);
+            }
+
+            if (groupMet) {
+                for (const child of otherChildren) {
+                    await evaluateBlockRecursively(child, ctx);
+                }
+            } else if (groupMet === false) {
+                noteUnreachedActions(otherChildren, ctx);
+            }
+            return groupMet;
+        }
+
+        case StrategyBlockType.ACTION: {
+            if (!block.action) {
+                console.warn(`   ACTION block ${block.id} has no linked action. Skipping.`);
+                return true;
+            }
+            const action = block.action;
+            const hasAssetChildren = block.children.some(isAssetSource);
+            let symbols: (string | undefined)[] = [undefined];
+            if (hasAssetChildren) {
+                const resolved = await resolveAssets(block.children, ctx);
+                if ('invalid' in resolved) {
+                    return unevaluableBlock(trace, `ACTION block ${block.id} not queued: ${resolved.invalid}.`);
+                }
+                symbols = resolved.assets.map(a => a.symbol);
+            }
+            trace.detail = { actionId: action.id, actionType: action.actionType, ...(hasAssetChildren && { symbols }) };
+
+            for (const symbol of symbols) {
+                // Same action (and symbol) linked twice fires once
+                if (!ctx.pendingActions.some(p => p.action.id === action.id && p.symbol === symbol)) {
+                    ctx.pendingActions.push({ action, blockId: block.id, symbol });
+                }
+            }
+            return true;
+        }
+
+        case StrategyBlockType.WEIGHT: {
+            // Invalid stored parameters leave the allocation incomplete: a partial one would have REBALANCE sell
+            // what the missing weights should have kept
+            const weightParameters = block.parameters;
+            if (!isWeightBlockParameters(weightParameters)) {
+                ctx.allocationIncomplete = true;
+                return unevaluableBlock(trace, `WEIGHT block ${block.id} has invalid parameters. Skipping its allocation.`);
+            }
+            const resolved = await resolveAssets(block.children, ctx);
+            if ('invalid' in resolved) {
+                ctx.allocationIncomplete = true;
+                return unevaluableBlock(trace, `WEIGHT block ${block.id} skipped: ${resolved.invalid}.`);
+            }
+            const allocation = await computeWeightAllocation(weightParameters, resolved.assets, ctx.allocationData);
+            if (ctx.verbose) {
+                console.log(`   Weight ${block.id} (${weightParameters.method}): ${JSON.stringify(allocation)}`);
+            }
+            ctx.targetAllocation = mergeAllocations(ctx.targetAllocation ?? {}, allocation);
+            trace.detail = { allocation };
+            return true;
+        }
+
+        default:
+            // ASSET and FILTER blocks outside a WEIGHT or ACTION parent have nothing to feed
+            console.log(`   Block ${block.id} of type ${block.blockType} is not evaluated yet. Skipping.`);
+            return true;
+    }
+};
+
+
+// Whether a condition (or an expression reference) reads the indicator an update was published for
+const readsUpdatedIndicator = (condition: Condition, update: Record<string, any>): boolean =>
+    condition.indicatorType === update.indicatorType
+    && condition.symbol === update.symbol
+    && condition.interval === update.interval
+    // Prisma JSON equality is tricky, parameters are compared in code
+    && JSON.stringify(condition.parameters) === JSON.stringify(update.parameters)
+    // Another provider is cached under another key; every series (dataKey) of the indicator comes with the update
+    && (condition.dataSource ?? null) === (update.dataSource ?? null);
 
-// --- *** REVISED evaluateStrategiesForIndicator Function (Simplified Approach) *** ---
 export const evaluateStrategiesForIndicator = async (indicatorUpdatePayload: Record<string, any>) => {
     const {
         cacheKey: updatedCacheKey,
@@ -128,7 +810,6 @@ export const evaluateStrategiesForIndicator = async (indicatorUpdatePayload: Rec
         symbol,
         interval,
         parameters: updatedParams,
-        // Potentially add dataSource, dataKey if used in cache key generation
     } = indicatorUpdatePayload;
 
      // Validate essential payload fields
@@ -160,29 +841,46 @@ export const evaluateStrategiesForIndicator = async (indicatorUpdatePayload: Rec
         }
     });
 
+    // EXPRESSION conditions on the same interval, triggered when one of their references is updated
+    const expressionConditions = await prisma.condition.findMany({
+        where: {
+            indicatorType: EXPRESSION_INDICATOR_TYPE,
+            interval: interval,
+            strategyBlocks: { some: { strategy: { isActive: true } } },
+        },
+        include: {
+            strategyBlocks: {
+                select: {
+                    strategyId: true,
+                    strategy: { select: { isActive: true } }
+                }
+            }
+        }
+    });
+
     // 2. Filter conditions by exact parameters and active strategies, collecting relevant strategy IDs
     const relevantStrategyIds = new Set<string>();
-    const conditionsByStrategy = new Map<string, Condition[]>(); // Store conditions per strategy
 
-    for (const condition of matchingConditions) {
-        // Precise parameter match check
-        if (JSON.stringify(condition.parameters) !== JSON.stringify(updatedParams)) {
-            continue; // Skip if parameters don't match exactly
+    for (const condition of [...matchingConditions, ...expressionConditions]) {
+        if (isExpressionCondition(condition)) {
+            let references: CompiledExpressionCondition['references'];
+            try {
+                references = compileExpressionCondition(condition).references;
+            } catch (error: any) {
+                console.warn(`Skipping condition ${condition.id} with an invalid expression: ${error.message}`);
+                continue;
+            }
+            if (!references.some(reference => readsUpdatedIndicator(reference.condition, indicatorUpdatePayload))) {
+                continue;
+            }
+        } else if (!readsUpdatedIndicator(condition, indicatorUpdatePayload)) {
+            continue; // Skip if parameters or dataSource don't match exactly
         }
 
         // Check if this condition is linked to any block in an active strategy
         for (const block of condition.strategyBlocks) {
             if (block.strategy?.isActive) {
                 relevantStrategyIds.add(block.strategyId);
-
-                // Store this condition for later evaluation against its strategy
-                if (!conditionsByStrategy.has(block.strategyId)) {
-                    conditionsByStrategy.set(block.strategyId, []);
-                }
-                 // Avoid adding duplicate conditions if linked to multiple blocks in the same strategy
-                 if (!conditionsByStrategy.get(block.strategyId)!.some(c => c.id === condition.id)) {
-                    conditionsByStrategy.get(block.strategyId)!.push(condition);
-                 }
             }
         }
     }
@@ -195,134 +893,193 @@ export const evaluateStrategiesForIndicator = async (indicatorUpdatePayload: Rec
 
     console.log(`Found ${relevantStrategyIds.size} active strategies potentially triggered.`);
 
-    // 3. Evaluate each relevant strategy using the SIMPLIFIED approach
+    // 3. Walk each relevant strategy's block tree from its ROOT, one failing strategy does not stop the others.
+    // The failures are thrown together afterwards so the update is retried; strategies that succeeded publish
+    // their actions again, which the action service refuses by idempotency key.
+    const failures: string[] = [];
     for (const strategyId of relevantStrategyIds) {
-        console.log(`--> Evaluating Strategy ID: ${strategyId} (Simplified Logic)`);
-
-        // Fetch all blocks for this strategy to find *all* conditions and actions
-        const strategyBlocks = await prisma.strategyBlock.findMany({
-            where: { strategyId: strategyId },
-            include: {
-                condition: true, // Include linked condition
-                action: true     // Include linked action
-            },
-            orderBy: { // Maintain order if needed for actions later
-                order: 'asc'
-            }
-        });
-
-        // Extract all unique conditions linked anywhere in this strategy's blocks
-        const allStrategyConditions = strategyBlocks
-            .filter(block => block.condition !== null)
-            .map(block => block.condition!)
-            .filter((condition, index, self) => // Ensure uniqueness
-                index === self.findIndex(c => c.id === condition.id)
-            );
-
-        // Extract all unique actions linked anywhere in this strategy's blocks
-        const allStrategyActions = strategyBlocks
-             .filter(block => block.action !== null)
-             .map(block => block.action!)
-             .filter((action, index, self) => // Ensure uniqueness
-                 index === self.findIndex(a => a.id === action.id)
-             );
-
-        if (allStrategyConditions.length === 0) {
-            console.log(`   Strategy ${strategyId} has no conditions linked to its blocks. Skipping evaluation.`);
-            // Or potentially trigger actions if no conditions is a valid state? Defaulting to skip.
-            continue;
+        try {
+            await evaluateStrategy(strategyId, indicatorUpdatePayload);
+        } catch (error: any) {
+            console.error(`   Error evaluating strategy ${strategyId}:`, error);
+            failures.push(`${strategyId}: ${error?.message ?? error}`);
         }
+    }
+    if (failures.length > 0) {
+        throw new Error(`Evaluation failed for ${failures.length} of ${relevantStrategyIds.size} strategies (${failures.join('; ')})`);
+    }
+};
 
-        let allConditionsMet = true; // Assume AND logic
-
-        // Evaluate all conditions found for this strategy
-        for (const condition of allStrategyConditions) {
-            // Generate cache key for *this specific condition*
-            const conditionCacheKeyParams = {
-                indicatorType: condition.indicatorType,
-                symbol: condition.symbol,
-                interval: condition.interval,
-                parameters: condition.parameters,
-                dataSource: condition.dataSource,
-                // dataKey: condition.dataKey, // Add if needed for cache key
-            };
-            const conditionCacheKey = generateCacheKey(conditionCacheKeyParams);
-
-            // Get data for this condition's indicator from Redis
-            const cachedEntry = await getCachedIndicatorEntry<any>(conditionCacheKey);
-
-            if (!cachedEntry) {
-                console.warn(`   Condition ${condition.id} (${conditionCacheKey}): Data not found in cache. Strategy cannot be fully evaluated.`);
-                allConditionsMet = false;
-                break; // Cannot satisfy AND logic if one part is missing
-            }
-
-            const currentValue = getLatestIndicatorValue(cachedEntry.data);
-            const previousValue = getPreviousIndicatorValue(cachedEntry.data);
+// Turns the actions collected during evaluation into their final parameters, in tree order
+const resolvePendingActions = (ctx: EvaluationContext): ActionDispatchEntry[] => {
+    const resolved: ActionDispatchEntry[] = [];
 
-            if (currentValue === null) {
-                console.warn(`   Condition ${condition.id} (${conditionCacheKey}): Could not extract latest value. Strategy cannot be fully evaluated.`);
-                allConditionsMet = false;
-                break;
-            }
+    for (const { action, blockId, symbol } of ctx.pendingActions) {
+        let actionParams = (typeof action.parameters === 'object' && action.parameters !== null
+                               ? action.parameters
+                               : {}) as Record<string, any>;
 
-            // Evaluate this specific condition (potentially against another indicator)
-            const conditionMet = await evaluateSingleCondition(condition, currentValue, previousValue);
-            const targetDesc = condition.targetIndicatorId
-                ? `TargetIndicator(${condition.targetIndicatorId})`
-                : `TargetValue(${condition.targetValue})`;
-            console.log(`   Condition ${condition.id} (${condition.indicatorType} ${condition.symbol || ''} ${condition.operator} ${targetDesc}): Current=${currentValue}, Prev=${previousValue ?? 'N/A'} -> Met: ${conditionMet}`);
+        // Actions fanned out over ASSET/FILTER children trade the selected symbol
+        if (symbol) {
+            actionParams = { ...actionParams, symbol };
+        }
 
-            if (!conditionMet) {
-                allConditionsMet = false;
-                break; // If any condition fails, the overall AND logic fails
+        // REBALANCE carries the target weights computed from the WEIGHT blocks reached in this evaluation
+        if (action.actionType === ActionType.REBALANCE) {
+            if (!ctx.targetAllocation) {
+                console.warn(`   REBALANCE action ${action.id} reached but no WEIGHT block was evaluated. Skipping.`);
+                continue;
             }
-        } // End loop through conditions for one strategy
-
-        // 4. If ALL conditions were met, publish all actions found
-        if (allConditionsMet) {
-            if (allStrategyActions.length === 0) {
-                 console.log(`   ✅ Strategy ${strategyId} conditions MET, but no actions found in blocks.`);
-            } else {
-                console.log(`   ✅ Strategy ${strategyId} conditions MET. Publishing ${allStrategyActions.length} actions.`);
-                for (const action of allStrategyActions) {
-                    const actionParams = typeof action.parameters === 'object' && action.parameters !== null
-                                           ? action.parameters
-                                           : {};
-
-                    await publishActionRequired({
-                        actionId: action.id,
-                        actionType: action.actionType, // Assumes ActionType enum matches
-                        parameters: actionParams as Record<string, any>,
-                        strategyId: strategyId,
-                        triggeringIndicator: indicatorUpdatePayload, // Pass context
-                    });
-                }
+            if (ctx.allocationIncomplete) {
+                console.warn(`   REBALANCE action ${action.id} reached but a WEIGHT block could not be evaluated. Skipping.`);
+                continue;
             }
-        } else {
-             console.log(`   ❌ Strategy ${strategyId} conditions NOT fully met.`);
+            actionParams = { ...actionParams, targetAllocation: ctx.targetAllocation };
         }
 
-    } // End loop through relevant strategy IDs
+        resolved.push({ actionId: action.id, blockId, actionType: action.actionType, parameters: actionParams, messageId: null });
+    }
+    return resolved;
 };
 
-// --- TODO: Implement Full Recursive Evaluation ---
-/*
-async function evaluateBlockRecursively(block: StrategyBlock & { children: StrategyBlock[], condition?: Condition, action?: Action }) {
-    // ... implementation needed ...
-    // switch (block.blockType) {
-    //    case StrategyBlockType.ROOT: ...
-    //    case StrategyBlockType.GROUP: ... (check parameters for AND/OR)
-    //    case StrategyBlockType.CONDITION_IF: ... (evaluate condition, recurse on THEN/ELSE children)
-    //    case StrategyBlockType.ACTION: ... (publish action)
-    //    ... other types
-    // }
+// What a block tree evaluation produced, before anything is published
+export interface BlockTreeEvaluation {
+    blocks: BlockTraceEntry[];
+    conditions: ConditionTraceEntry[];
+    actions: ActionDispatchEntry[];
+    targetAllocation: TargetAllocation | null;
+    // Actions not reached because a condition or group evaluated false, as opposed to unevaluable; firing modes
+    // re-arm only these
+    unreachedActionIds: string[];
 }
 
-export const evaluateStrategiesForIndicator_Recursive = async (indicatorUpdatePayload: ...) => {
-    // 1. Find relevant active strategy IDs (as done above)
-    // 2. For each strategyId:
-    //    Fetch the root block with nested children, conditions, actions
-    //    Call evaluateBlockRecursively(strategy.rootBlock)
+export interface BlockTreeEvaluationOptions {
+    strategyId: string;
+    triggeringIndicator: Record<string, any>;
+    indicatorData?: IndicatorDataSource; // Defaults to the Redis indicator cache
+    allocationData?: AllocationDataSource; // Defaults to live Alpaca / Alpha Vantage data
+    verbose?: boolean; // Defaults to true
 }
-*/
\ No newline at end of file
+
+/**
+ * Evaluates a loaded block tree and returns the trace and the actions it reached, without publishing.
+ * Live evaluation and backtests share this; they differ only in the data sources passed in.
+ */
+export const evaluateBlockTree = async (
+    rootBlock: EvaluationBlock,
+    options: BlockTreeEvaluationOptions
+): Promise<BlockTreeEvaluation> => {
+    const ctx: EvaluationContext = {
+        strategyId: options.strategyId,
+        triggeringIndicator: options.triggeringIndicator,
+        conditionResults: new Map(),
+        conditionTrace: [],
+        blockTrace: [],
+        pendingActions: [],
+        unreachedActionIds: new Set(),
+        targetAllocation: null,
+        allocationIncomplete: false,
+        indicatorData: options.indicatorData ?? cachedIndicatorDataSource,
+        allocationData: options.allocationData ?? liveAllocationDataSource,
+        verbose: options.verbose ?? true,
+    };
+
+    await evaluateBlockRecursively(rootBlock, ctx);
+    return {
+        blocks: ctx.blockTrace,
+        conditions: ctx.conditionTrace,
+        actions: resolvePendingActions(ctx),
+        targetAllocation: ctx.targetAllocation,
+        unreachedActionIds: [...ctx.unreachedActionIds],
+    };
+};
+
+// Publishes the resolved actions to the action stream, recording the stream id of each (null when publishing failed)
+const publishActions = async (
+    strategyId: string,
+    triggeringIndicator: Record<string, any>,
+    actions: ActionDispatchEntry[]
+): Promise<ActionDispatchEntry[]> => {
+    const published: ActionDispatchEntry[] = [];
+    for (const entry of actions) {
+        if (entry.suppressedReason) {
+            published.push(entry); // Kept in the run history, not published
+            continue;
+        }
+        const messageId = await publishActionRequired({
+            actionId: entry.actionId,
+            actionType: entry.actionType, // Assumes ActionType enum matches
+            parameters: entry.parameters,
+            strategyId,
+            triggeringIndicator, // Pass context
+        });
+        published.push({ ...entry, messageId });
+    }
+    return published;
+};
+
+/**
+ * Evaluates one strategy's block tree, publishes the actions it reaches and records the run.
+ * A run that throws, or that could not publish every action it fired, is recorded as FAILED and then throws.
+ * With { dryRun: true } the tree is evaluated against the same cached data but nothing is published or recorded.
+ */
+export const evaluateStrategy = async (
+    strategyId: string,
+    triggeringIndicator: Record<string, any>,
+    options: EvaluateStrategyOptions = {}
+): Promise<StrategyEvaluationResult | null> => {
+    const dryRun = options.dryRun ?? false;
+    console.log(`--> Evaluating Strategy ID: ${strategyId}${dryRun ? ' (dry run)' : ''}`);
+
+    const rootBlock = await loadStrategyBlockTree(strategyId);
+    if (!rootBlock) {
+        console.warn(`   Strategy ${strategyId} has no ROOT block. Skipping evaluation.`);
+        return null;
+    }
+    const startedAt = new Date();
+
+    let result: StrategyEvaluationResult;
+    try {
+        const { unreachedActionIds, ...evaluation } = await evaluateBlockTree(rootBlock, { strategyId, triggeringIndicator });
+
+        // Firing modes hold back actions that already fired for this state; runs even when nothing was reached,
+        // which is what re-arms ON_TRANSITION actions
+        const gatedActions = await applyFiringModes(strategyId, triggeringIndicator, evaluation.actions, unreachedActionIds, { persist: !dryRun });
+        const firing = gatedActions.filter(entry => !entry.suppressedReason).length;
+
+        // Publish only the actions reached on branches whose conditions held
+        if (evaluation.actions.length === 0) {
+            console.log(`   ❌ Strategy ${strategyId}: no action branches triggered.`);
+        } else {
+            console.log(`   ✅ Strategy ${strategyId}: ${dryRun ? 'would publish' : 'publishing'} ${firing} of ${evaluation.actions.length} reached actions.`);
+        }
+        const actions = dryRun
+            ? gatedActions
+            : await publishActions(strategyId, triggeringIndicator, gatedActions);
+        if (!dryRun) {
+            // Only what was actually published counts as fired
+            await recordFirings(strategyId, triggeringIndicator, actions);
+        }
+        result = { strategyId, dryRun, ...evaluation, actions };
+    } catch (error: any) {
+        if (!dryRun) {
+            await recordStrategyRun({
+                strategyId, triggeringIndicator, startedAt,
+                conditions: [], actions: [], error: error?.message ?? String(error),
+            });
+        }
+        throw error;
+    }
+
+    if (!dryRun) {
+        const unpublished = result.actions.filter(entry => !entry.suppressedReason && entry.messageId === null);
+        const error = unpublished.length > 0
+            ? `Could not publish ${unpublished.length} of ${result.actions.length} actions (${unpublished.map(entry => entry.actionId).join(', ')})`
+            : undefined;
+        await recordStrategyRun({ ...result, triggeringIndicator, startedAt, error });
+        if (error) {
+            throw new Error(error);
+        }
+    }
+    return result;
+};
@@ -0,0 +1,339 @@
+// src/controllers/evaluationService/expression.ts
+/**
+ * Arithmetic expressions over indicator references, used by EXPRESSION conditions:
+ *   (close - SMA(20)) / ATR(14) > 2        EMA(12, MSFT) / EMA(12, SPY) CROSSES_ABOVE 1
+ *
+ * Grammar (recursive descent):
+ *   expression := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/') unary)*
+ *   unary      := '-' unary | primary
+ *   primary    := NUMBER | '(' expression ')' | reference
+ *   reference  := NAME | NAME '(' [argument (',' argument)*] ')'
+ *   argument   := NUMBER | NAME | STRING
+ *
+ * References:
+ *  - open, high, low, close, volume (lowercase): fields of the bars, read from the BAR indicator.
+ *  - any other NAME is an indicator type (SMA, RSI, PRICE, ...). Numeric arguments fill its Alpha Vantage
+ *    parameters in order (time_period; MACD fastperiod, slowperiod, signalperiod; ...). A NAME or quoted
+ *    argument is the symbol, except quoted output keys of multi-output indicators: BBANDS(20, "Real Upper Band").
+ * References without a symbol use the condition's symbol; all of them use the condition's interval and dataSource.
+ */
+import { Condition } from '@prisma/client';
+import { MULTI_OUTPUT_INDICATOR_KEYS } from '../technicalIndicators/localIndicators';
+import { isMarketQuantityType } from '../technicalIndicators/snapshotProvider';
+
+export const EXPRESSION_INDICATOR_TYPE = 'EXPRESSION';
+
+export class ExpressionError extends Error {}
+
+export interface ExpressionReference {
+    key: string; // Canonical form, identifies the reference within a condition
+    indicatorType: string;
+    symbol: string | null; // null: the condition's symbol
+    parameters: Record<string, any>;
+    dataKey: string | null;
+}
+
+export type ExpressionNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'reference'; reference: ExpressionReference }
+    | { kind: 'negate'; operand: ExpressionNode }
+    | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode };
+
+// --- Tokenizer ---
+
+type Token =
+    | { type: 'number'; value: number; position: number }
+    | { type: 'name'; value: string; position: number }
+    | { type: 'string'; value: string; position: number }
+    | { type: 'symbol'; value: string; position: number }
+    | { type: 'end'; position: number };
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (/[0-9.]/.test(char)) {
+            const match = /^(\d+\.?\d*|\.\d+)/.exec(text.slice(i));
+            if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}`);
+            tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(char)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(text.slice(i))!; // '.' for tickers such as BRK.B
+            tokens.push({ type: 'name', value: match[0], position: i });
+            i += match[0].length;
+        } else if (char === '"' || char === "'") {
+            const close = text.indexOf(char, i + 1);
+            if (close === -1) throw new ExpressionError(`Unterminated string at position ${i + 1}`);
+            tokens.push({ type: 'string', value: text.slice(i + 1, close), position: i });
+            i = close + 1;
+        } else if ('+-*/(),'.includes(char)) {
+            tokens.push({ type: 'symbol', value: char, position: i });
+            i++;
+        } else {
+            throw new ExpressionError(`Unexpected '${char}' at position ${i + 1}`);
+        }
+    }
+    tokens.push({ type: 'end', position: text.length });
+    return tokens;
+};
+
+// --- References ---
+
+const BAR_FIELDS = ['open', 'high', 'low', 'close', 'volume'];
+
+// Alpha Vantage parameters filled by the numeric arguments, in order; time_period for the indicators not listed
+const POSITIONAL_PARAMETERS: Record<string, string[]> = {
+    MACD: ['fastperiod', 'slowperiod', 'signalperiod'],
+    BBANDS: ['time_period', 'nbdevup', 'nbdevdn'],
+    STOCH: ['fastkperiod', 'slowkperiod', 'slowdperiod'],
+    AD: [],
+    OBV: [],
+    BAR: [],
+};
+
+// Indicators Alpha Vantage computes over a price series, they get series_type 'close'
+const SERIES_TYPE_INDICATORS = new Set([
+    'SMA', 'EMA', 'WMA', 'DEMA', 'TEMA', 'TRIMA', 'KAMA', 'T3', 'RSI', 'MACD', 'BBANDS', 'MOM', 'ROC', 'CMO', 'TRIX',
+]);
+
+type ReferenceArgument = { type: 'number' | 'name' | 'string'; value: string | number; position: number };
+
+const buildReference = (name: string, args: ReferenceArgument[], position: number): ExpressionReference => {
+    const isBarField = BAR_FIELDS.includes(name);
+    const indicatorType = isBarField ? 'BAR' : name.toUpperCase();
+    if (indicatorType === EXPRESSION_INDICATOR_TYPE) {
+        throw new ExpressionError(`EXPRESSION cannot be referenced (position ${position + 1})`);
+    }
+    const positional = isMarketQuantityType(indicatorType) ? [] : (POSITIONAL_PARAMETERS[indicatorType] ?? ['time_period']);
+    const outputKeys = MULTI_OUTPUT_INDICATOR_KEYS[indicatorType];
+
+    const parameters: Record<string, any> = {};
+    let symbol: string | null = null;
+    let dataKey: string | null = isBarField ? name : null;
+    let numericCount = 0;
+    for (const arg of args) {
+        if (arg.type === 'number') {
+            if (numericCount >= positional.length) {
+                throw new ExpressionError(`${name} takes at most ${positional.length} numeric argument(s) (position ${arg.position + 1})`);
+            }
+            parameters[positional[numericCount++]] = arg.value;
+        } else if (arg.type === 'string' && outputKeys?.includes(arg.value as string) && !isBarField) {
+            dataKey = arg.value as string;
+        } else {
+            if (symbol !== null) {
+                throw new ExpressionError(`${name} has more than one symbol (position ${arg.position + 1})`);
+            }
+            symbol = String(arg.value).toUpperCase();
+        }
+    }
+    if (SERIES_TYPE_INDICATORS.has(indicatorType)) {
+        parameters.series_type = 'close';
+    }
+    if (outputKeys && !dataKey) {
+        throw new ExpressionError(`${name} returns several series, add one of ${outputKeys.map(k => `"${k}"`).join(', ')} (position ${position + 1})`);
+    }
+
+    return {
+        key: `${indicatorType}|${symbol ?? ''}|${JSON.stringify(parameters)}|${dataKey ?? ''}`,
+        indicatorType,
+        symbol,
+        parameters,
+        dataKey,
+    };
+};
+
+// --- Parser ---
+
+class ExpressionParser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): ExpressionNode {
+        const node = this.parseExpression();
+        const token = this.peek();
+        if (token.type !== 'end') {
+            throw new ExpressionError(`Unexpected '${this.describe(token)}' at position ${token.position + 1}`);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isSymbol(value: string): boolean {
+        const token = this.peek();
+        return token.type === 'symbol' && token.value === value;
+    }
+
+    private expectSymbol(value: string): void {
+        const token = this.next();
+        if (token.type !== 'symbol' || token.value !== value) {
+            throw new ExpressionError(`Expected '${value}' but found '${this.describe(token)}' at position ${token.position + 1}`);
+        }
+    }
+
+    private describe(token: Token): string {
+        return token.type === 'end' ? 'end of expression' : String(token.value);
+    }
+
+    private parseExpression(): ExpressionNode {
+        let node = this.parseTerm();
+        while (this.isSymbol('+') || this.isSymbol('-')) {
+            const operator = (this.next() as { value: string }).value as '+' | '-';
+            node = { kind: 'binary', operator, left: node, right: this.parseTerm() };
+        }
+        return node;
+    }
+
+    private parseTerm(): ExpressionNode {
+        let node = this.parseUnary();
+        while (this.isSymbol('*') || this.isSymbol('/')) {
+            const operator = (this.next() as { value: string }).value as '*' | '/';
+            node = { kind: 'binary', operator, left: node, right: this.parseUnary() };
+        }
+        return node;
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.isSymbol('-')) {
+            this.next();
+            return { kind: 'negate', operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+        switch (token.type) {
+            case 'number':
+                return { kind: 'number', value: token.value };
+            case 'name':
+                return { kind: 'reference', reference: buildReference(token.value, this.parseArguments(), token.position) };
+            case 'symbol':
+                if (token.value === '(') {
+                    const node = this.parseExpression();
+                    this.expectSymbol(')');
+                    return node;
+                }
+                break;
+        }
+        throw new ExpressionError(`Unexpected '${this.describe(token)}' at position ${token.position + 1}`);
+    }
+
+    private parseArguments(): ReferenceArgument[] {
+        if (!this.isSymbol('(')) return [];
+        this.next();
+        const args: ReferenceArgument[] = [];
+        if (this.isSymbol(')')) {
+            this.next();
+            return args;
+        }
+        for (;;) {
+            const token = this.next();
+            if (token.type !== 'number' && token.type !== 'name' && token.type !== 'string') {
+                throw new ExpressionError(`Expected an argument but found '${this.describe(token)}' at position ${token.position + 1}`);
+            }
+            args.push({ type: token.type, value: token.value, position: token.position });
+            if (!this.isSymbol(',')) break;
+            this.next();
+        }
+        this.expectSymbol(')');
+        return args;
+    }
+}
+
+// Parses an expression, throwing an ExpressionError that says where it went wrong
+export const parseExpression = (text: string): ExpressionNode => {
+    if (typeof text !== 'string' || text.trim() === '') {
+        throw new ExpressionError('Expression is empty');
+    }
+    return new ExpressionParser(tokenize(text)).parse();
+};
+
+// Distinct references of an expression, in order of appearance
+export const collectReferences = (node: ExpressionNode, references: Map<string, ExpressionReference> = new Map()): ExpressionReference[] => {
+    switch (node.kind) {
+        case 'reference':
+            if (!references.has(node.reference.key)) references.set(node.reference.key, node.reference);
+            break;
+        case 'negate':
+            collectReferences(node.operand, references);
+            break;
+        case 'binary':
+            collectReferences(node.left, references);
+            collectReferences(node.right, references);
+            break;
+    }
+    return [...references.values()];
+};
+
+// Value of the expression given each reference's value (by reference key); NaN when a reference has no value
+export const evaluateExpression = (node: ExpressionNode, values: Map<string, number>): number => {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'reference':
+            return values.get(node.reference.key) ?? NaN;
+        case 'negate':
+            return -evaluateExpression(node.operand, values);
+        case 'binary': {
+            const left = evaluateExpression(node.left, values);
+            const right = evaluateExpression(node.right, values);
+            switch (node.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return left / right; // Division by zero gives a non-finite value the caller rejects
+            }
+        }
+    }
+};
+
+export const isExpressionCondition = (condition: Pick<Condition, 'indicatorType'>): boolean =>
+    condition.indicatorType === EXPRESSION_INDICATOR_TYPE;
+
+export interface CompiledExpressionCondition {
+    left: ExpressionNode;
+    right: ExpressionNode | null; // null: compared against targetValue
+    references: { key: string; condition: Condition }[];
+}
+
+/**
+ * Parses both sides of an EXPRESSION condition. Each reference becomes a condition of its own
+ * (id '<condition id>:<reference key>') so it is fetched, cached and replayed like any other indicator.
+ */
+export const compileExpressionCondition = (condition: Condition): CompiledExpressionCondition => {
+    const left = parseExpression(condition.expression ?? '');
+    const right = condition.targetExpression ? parseExpression(condition.targetExpression) : null;
+
+    const referenceMap = new Map<string, ExpressionReference>();
+    collectReferences(left, referenceMap);
+    if (right) collectReferences(right, referenceMap);
+
+    const references = [...referenceMap.values()].map(reference => ({
+        key: reference.key,
+        condition: {
+            ...condition,
+            id: `${condition.id}:${reference.key}`,
+            indicatorType: reference.indicatorType,
+            symbol: reference.symbol ?? condition.symbol,
+            parameters: reference.parameters,
+            dataKey: reference.dataKey,
+            targetValue: null,
+            targetIndicatorId: null,
+            expression: null,
+            targetExpression: null,
+        },
+    }));
+    return { left, right, references };
+};
@@ -0,0 +1,284 @@
+// src/controllers/evaluationService/firingModes.ts
+/**
+ * Firing modes decide whether an action reached by an evaluation is published:
+ *  - EVERY_EVALUATION (default): always, so a level condition that stays true republishes on every refresh.
+ *  - ON_TRANSITION: only when the previous evaluation did not reach it (false -> true).
+ *  - COOLDOWN: at most once per cooldownMinutes, or per cooldownBars bars of the indicator that fired it.
+ * An action's own firingMode overrides its strategy's. The state (reached by the latest evaluation, last firing,
+ * bars since) lives in ActionFiringState so it survives restarts. EVERY_EVALUATION actions keep no state.
+ *
+ * An action is only re-armed (no longer reached) when the evaluation decided against it: a condition or group
+ * gating it evaluated false. Actions skipped because their condition could not be evaluated keep their state, so
+ * missing data does not make an ON_TRANSITION action fire again once the data is back.
+ *
+ * A live evaluation first decides with applyFiringModes, then records the firings of the actions it managed to
+ * publish with recordFirings, so an action whose publishing failed fires again when the update is retried.
+ * Bars are counted per indicator: only updates of the indicator that last fired an action (its cache key) with
+ * a new lastRefreshed advance the action's bar count, whatever else triggers the strategy.
+ * Backtests apply the same rules to state kept in memory (see createReplayFiringModes).
+ */
+import { FiringMode, Prisma } from '@prisma/client';
+import prisma from '../../utils/prisma/prisma';
+import { ActionDispatchEntry } from './evaluator';
+
+interface FiringSettings {
+    firingMode: FiringMode;
+    cooldownMinutes: number | null;
+    cooldownBars: number | null;
+}
+
+interface FiringState {
+    reached: boolean;
+    lastFiredAt: Date | null;
+    barsSinceFired: number;
+}
+
+export interface FiringModeOptions {
+    persist: boolean; // False for dry runs: decide from the stored state without updating it
+}
+
+// Fanned-out actions fire independently per symbol
+const actionKeyOf = (entry: ActionDispatchEntry): string =>
+    entry.parameters.symbol ? `${entry.actionId}:${entry.parameters.symbol}` : entry.actionId;
+
+// Whether a state key belongs to one of the actions (itself or one of its symbols)
+const isKeyOfActions = (actionKey: string, actionIds: Set<string>): boolean =>
+    actionIds.has(actionKey.split(':')[0]);
+
+// Actions whose states an evaluation may re-arm: the ones it decided against, and the reached ones for the
+// symbols their assets no longer select
+const rearmableActionIds = (actions: ActionDispatchEntry[], unreachedActionIds: string[]): Set<string> =>
+    new Set([...unreachedActionIds, ...actions.map(entry => entry.actionId)]);
+
+// The indicator an update is about and the bar it ends on
+const triggerBar = (triggeringIndicator: Record<string, any>) => ({
+    barSource: typeof triggeringIndicator.cacheKey === 'string' ? triggeringIndicator.cacheKey : null,
+    barTime: typeof triggeringIndicator.lastRefreshed === 'string' ? triggeringIndicator.lastRefreshed : null,
+});
+
+// Firing settings of each action, falling back to the strategy's; null when the strategy does not exist
+const loadFiringSettings = async (
+    strategyId: string,
+    actionIds: string[]
+): Promise<((actionId: string) => FiringSettings) | null> => {
+    const strategy = await prisma.strategy.findUnique({
+        where: { id: strategyId },
+        select: { firingMode: true, cooldownMinutes: true, cooldownBars: true },
+    });
+    if (!strategy) return null;
+
+    const actionSettings = await prisma.action.findMany({
+        where: { id: { in: [...new Set(actionIds)] } },
+        select: { id: true, firingMode: true, cooldownMinutes: true, cooldownBars: true },
+    });
+    const settingsByAction = new Map(actionSettings.map(action => [action.id, action]));
+    return (actionId) => {
+        const own = settingsByAction.get(actionId);
+        return own?.firingMode ? (own as FiringSettings) : strategy;
+    };
+};
+
+// Why a COOLDOWN action may not fire yet, or null when it may
+const cooldownBlocked = (settings: FiringSettings, state: FiringState | null, now: Date): string | null => {
+    if (!state?.lastFiredAt) return null;
+    if (settings.cooldownMinutes) {
+        const elapsedMinutes = (now.getTime() - state.lastFiredAt.getTime()) / 60000;
+        return elapsedMinutes >= settings.cooldownMinutes
+            ? null
+            : `cooldown: fired ${Math.floor(elapsedMinutes)} of ${settings.cooldownMinutes} minutes ago`;
+    }
+    if (settings.cooldownBars) {
+        return state.barsSinceFired >= settings.cooldownBars
+            ? null
+            : `cooldown: fired ${state.barsSinceFired} of ${settings.cooldownBars} bars ago`;
+    }
+    return null; // COOLDOWN without a cooldown never holds anything back
+};
+
+// Why an ON_TRANSITION or COOLDOWN action is held back, or null when it may fire
+const suppressionReason = (settings: FiringSettings, state: FiringState | null, now: Date): string | null =>
+    settings.firingMode === FiringMode.ON_TRANSITION
+        ? (state?.reached ? 'on transition: already reached by the previous evaluation' : null)
+        : cooldownBlocked(settings, state, now);
+
+// Conditions under which a firing may be recorded (the stored counterpart of cooldownBlocked)
+const fireableWhere = (settings: FiringSettings, now: Date): Prisma.ActionFiringStateWhereInput => {
+    if (settings.firingMode === FiringMode.ON_TRANSITION) {
+        return { reached: false };
+    }
+    if (settings.cooldownMinutes) {
+        return { OR: [{ lastFiredAt: null }, { lastFiredAt: { lte: new Date(now.getTime() - settings.cooldownMinutes * 60000) } }] };
+    }
+    if (settings.cooldownBars) {
+        return { OR: [{ lastFiredAt: null }, { barsSinceFired: { gte: settings.cooldownBars } }] };
+    }
+    return {};
+};
+
+/**
+ * Returns the actions with suppressedReason set on the ones their firing mode holds back, in the same order.
+ * With { persist: true } (live evaluations) the update's bar is counted for the actions fired by the same indicator,
+ * held-back actions are marked reached and the actions in unreachedActionIds (those the evaluation decided against,
+ * see BlockTreeEvaluation) are unmarked. The actions that may fire are left untouched until recordFirings.
+ */
+export const applyFiringModes = async (
+    strategyId: string,
+    triggeringIndicator: Record<string, any>,
+    actions: ActionDispatchEntry[],
+    unreachedActionIds: string[],
+    options: FiringModeOptions
+): Promise<ActionDispatchEntry[]> => {
+    const settingsFor = await loadFiringSettings(strategyId, actions.map(entry => entry.actionId));
+    if (!settingsFor) return actions;
+
+    const now = new Date();
+    const { barSource, barTime } = triggerBar(triggeringIndicator);
+
+    if (options.persist && barSource && barTime) {
+        // States recorded before bars were counted per indicator adopt the first indicator that updates
+        await prisma.actionFiringState.updateMany({
+            where: {
+                strategyId,
+                OR: [{ barSource }, { barSource: null }],
+                AND: [{ OR: [{ lastBarTime: null }, { lastBarTime: { not: barTime } }] }],
+            },
+            data: { barsSinceFired: { increment: 1 }, barSource, lastBarTime: barTime },
+        });
+    }
+
+    const gated: ActionDispatchEntry[] = [];
+    const reachedKeys: string[] = [];
+    const heldBackKeys: string[] = [];
+    for (const entry of actions) {
+        const settings = settingsFor(entry.actionId);
+        if (settings.firingMode === FiringMode.EVERY_EVALUATION) {
+            gated.push(entry);
+            continue;
+        }
+        const actionKey = actionKeyOf(entry);
+        reachedKeys.push(actionKey);
+
+        const state = await prisma.actionFiringState.findUnique({
+            where: { strategyId_actionKey: { strategyId, actionKey } },
+        });
+        const suppressedReason = suppressionReason(settings, state, now);
+
+        if (suppressedReason) {
+            console.log(`   Action ${entry.actionId} held back (${suppressedReason}).`);
+            heldBackKeys.push(actionKey);
+        }
+        gated.push({ ...entry, suppressedReason });
+    }
+
+    if (options.persist) {
+        // A held-back action has a state row: it fired before
+        if (heldBackKeys.length > 0) {
+            await prisma.actionFiringState.updateMany({
+                where: { strategyId, actionKey: { in: heldBackKeys } },
+                data: { reached: true },
+            });
+        }
+        // Actions this evaluation decided against can fire on their next transition
+        const rearmable = [...rearmableActionIds(actions, unreachedActionIds)];
+        if (rearmable.length > 0) {
+            await prisma.actionFiringState.updateMany({
+                where: {
+                    strategyId,
+                    reached: true,
+                    actionKey: { notIn: reachedKeys },
+                    OR: [
+                        { actionKey: { in: rearmable } },
+                        ...rearmable.map(actionId => ({ actionKey: { startsWith: `${actionId}:` } })),
+                    ],
+                },
+                data: { reached: false },
+            });
+        }
+    }
+    return gated;
+};
+
+/**
+ * Records the firing of the actions that were published (messageId set, not held back): marks them reached,
+ * restarts their cooldown and counts bars from the triggering indicator from now on.
+ * An evaluation racing this one may have recorded the same firing in the meantime; both published it.
+ */
+export const recordFirings = async (
+    strategyId: string,
+    triggeringIndicator: Record<string, any>,
+    published: ActionDispatchEntry[]
+): Promise<void> => {
+    const fired = published.filter(entry => !entry.suppressedReason && entry.messageId !== null);
+    if (fired.length === 0) return;
+    const settingsFor = await loadFiringSettings(strategyId, fired.map(entry => entry.actionId));
+    if (!settingsFor) return;
+
+    const now = new Date();
+    const { barSource, barTime } = triggerBar(triggeringIndicator);
+    for (const entry of fired) {
+        const settings = settingsFor(entry.actionId);
+        if (settings.firingMode === FiringMode.EVERY_EVALUATION) continue;
+
+        const actionKey = actionKeyOf(entry);
+        // Make sure the row exists, then record only if it is still fireable
+        await prisma.actionFiringState.upsert({
+            where: { strategyId_actionKey: { strategyId, actionKey } },
+            create: { strategyId, actionKey },
+            update: {},
+        });
+        const recorded = await prisma.actionFiringState.updateMany({
+            where: { strategyId, actionKey, ...fireableWhere(settings, now) },
+            data: { reached: true, lastFiredAt: now, barsSinceFired: 0, barSource, lastBarTime: barTime },
+        });
+        if (recorded.count === 0) {
+            console.warn(`   Action ${entry.actionId} of strategy ${strategyId} was fired by a concurrent evaluation as well.`);
+        }
+    }
+};
+
+/**
+ * Firing modes for a backtest replay, with the state in memory. The returned function gates the actions of one
+ * evaluation, at the close of one bar of the replay's step interval ('now'): it counts that bar, holds actions back
+ * and re-arms the unreached ones like applyFiringModes, and records the ones that fire, since a replay has no
+ * publishing that could fail.
+ */
+export const createReplayFiringModes = async (
+    strategyId: string,
+    actionIds: string[]
+): Promise<(actions: ActionDispatchEntry[], now: Date, unreachedActionIds: string[]) => ActionDispatchEntry[]> => {
+    const settingsFor = await loadFiringSettings(strategyId, actionIds);
+    const states = new Map<string, FiringState>();
+
+    return (actions, now, unreachedActionIds) => {
+        if (!settingsFor) return actions;
+        for (const state of states.values()) state.barsSinceFired++;
+
+        const gated: ActionDispatchEntry[] = [];
+        const reachedKeys = new Set<string>();
+        for (const entry of actions) {
+            const settings = settingsFor(entry.actionId);
+            if (settings.firingMode === FiringMode.EVERY_EVALUATION) {
+                gated.push(entry);
+                continue;
+            }
+            const actionKey = actionKeyOf(entry);
+            reachedKeys.add(actionKey);
+
+            const state = states.get(actionKey) ?? { reached: false, lastFiredAt: null, barsSinceFired: 0 };
+            const suppressedReason = suppressionReason(settings, state, now);
+            if (!suppressedReason) {
+                state.lastFiredAt = now;
+                state.barsSinceFired = 0;
+            }
+            state.reached = true;
+            states.set(actionKey, state);
+            gated.push({ ...entry, suppressedReason });
+        }
+
+        const rearmable = rearmableActionIds(actions, unreachedActionIds);
+        for (const [actionKey, state] of states) {
+            if (!reachedKeys.has(actionKey) && isKeyOfActions(actionKey, rearmable)) state.reached = false;
+        }
+        return gated;
+    };
+};
@@ -0,0 +1,59 @@
+// src/controllers/evaluationService/runHistory.ts
+import { Prisma, StrategyRunStatus } from '@prisma/client';
+import prisma from '../../utils/prisma/prisma';
+import { ConditionTraceEntry, ActionDispatchEntry } from './evaluator';
+
+interface StrategyRunRecord {
+    strategyId: string;
+    triggeringIndicator: Record<string, any>;
+    startedAt: Date;
+    conditions: ConditionTraceEntry[];
+    actions: ActionDispatchEntry[];
+    error?: string; // Set when the evaluation threw, the run is then stored as FAILED
+}
+
+/**
+ * Stores one evaluation run with its condition results and published actions.
+ * History is best-effort: a failure to write it is logged and never interrupts evaluation.
+ */
+export const recordStrategyRun = async (record: StrategyRunRecord): Promise<void> => {
+    try {
+        await prisma.strategyRun.create({
+            data: {
+                strategyId: record.strategyId,
+                trigger: record.triggeringIndicator as Prisma.InputJsonValue,
+                status: record.error ? StrategyRunStatus.FAILED : StrategyRunStatus.COMPLETED,
+                error: record.error,
+                startedAt: record.startedAt,
+                conditionResults: {
+                    create: record.conditions.map((c, index) => ({
+                        blockId: c.blockId,
+                        conditionId: c.conditionId,
+                        indicatorType: c.indicatorType,
+                        symbol: c.symbol,
+                        operator: c.operator,
+                        currentValue: c.currentValue,
+                        previousValue: c.previousValue,
+                        targetValue: c.targetValue,
+                        met: c.met,
+                        note: c.note,
+                        order: index,
+                    })),
+                },
+                actionDispatches: {
+                    create: record.actions.map((a, index) => ({
+                        actionId: a.actionId,
+                        blockId: a.blockId,
+                        actionType: a.actionType,
+                        parameters: a.parameters as Prisma.InputJsonValue,
+                        streamMessageId: a.messageId,
+                        suppressedReason: a.suppressedReason ?? null,
+                        order: index,
+                    })),
+                },
+            },
+        });
+    } catch (error) {
+        console.error(`   Failed to record run history for strategy ${record.strategyId}:`, error);
+    }
+};
@@ -1,18 +1,31 @@
 // scheduler/fetchOrchestrator.ts
-import cron from 'node-cron';
-import { TechnicalIndicator, getTechnicalIndicator } from '../technicalIndicators/technicalIndicators'; 
+/**
+ * Indicator fetches run as BullMQ jobs: every active indicator has a job scheduler on indicatorQueue
+ * (cron pattern from its interval), so each fetch is picked up by exactly one fetch worker however
+ * many API replicas run (see fetchWorker).
+ */
+import { createHash } from 'crypto';
+import { TechnicalIndicator } from '../technicalIndicators/technicalIndicators';
 import { getCachedIndicatorEntry, generateCacheKey } from '../technicalIndicators/cache';
+import { refreshIndicator } from '../technicalIndicators/indicatorProviders';
+import { isCryptoSymbol, intervalMinutes } from '../../services/marketDataService';
+import { wasEquityMarketOpen, getLastClosedTradingDay, getSchedulerMarketSession } from './marketHours';
+import { indicatorQueue } from '../../utils/redisClient';
 import { parseISO, differenceInMinutes, differenceInHours, differenceInDays, isBefore } from 'date-fns'; // Date library
 
+export const INDICATOR_FETCH_JOB_NAME = 'fetchIndicator';
+const FETCH_JOBS_KEPT = { completed: 200, failed: 1000 }; // Recent fetch jobs kept for inspection
+
 // Helper to convert interval string to a cron pattern
-function getCronPatternForInterval(interval: string): string | null {
+function getCronPatternForInterval(interval: string, crypto: boolean): string | null {
     switch (interval) {
         case '1min': return '* * * * *'; // Every minute
         case '5min': return '*/5 * * * *'; // Every 5 minutes
         case '15min': return '*/15 * * * *';
         case '30min': return '*/30 * * * *';
         case '60min': return '0 * * * *'; // Top of every hour
-        case 'daily': return '0 1 * * *'; // Once a day (e.g., 1 AM UTC) - Adjust time as needed
+        // Crypto once a day; equities hourly on weekdays, marketClosedReason lets one through after each session closes
+        case 'daily': return crypto ? '0 1 * * *' : '10 * * * 1-5';
         case 'weekly': return '0 2 * * 1'; // Once a week (e.g., Monday 2 AM UTC)
         case 'monthly': return '0 3 1 * *'; // Once a month (e.g., 1st day at 3 AM UTC)
         default:
@@ -30,7 +43,8 @@ async function shouldFetchBasedOnMetadata(params: TechnicalIndicator): Promise<b
         return true; // No cache, definitely fetch
     }
 
-    const alphaVantageRefreshedStr = cachedEntry.metadata?.alphaVantageLastRefreshed;
+    // Alpha Vantage entries carry its own refresh time, locally computed ones the time of their last bar
+    const alphaVantageRefreshedStr = cachedEntry.metadata?.alphaVantageLastRefreshed ?? cachedEntry.metadata?.lastRefreshed;
     if (!alphaVantageRefreshedStr) {
          console.warn(`No AlphaVantage Last Refreshed time found for ${cacheKey}, fetching anyway.`);
         return true; // Cannot determine staleness, fetch to be safe
@@ -43,6 +57,8 @@ async function shouldFetchBasedOnMetadata(params: TechnicalIndicator): Promise<b
          let avRefreshedDate: Date;
          if (alphaVantageRefreshedStr.length === 10) { // Looks like YYYY-MM-DD
              avRefreshedDate = parseISO(alphaVantageRefreshedStr + 'T00:00:00Z'); // Assume UTC midnight if only date
+         } else if (alphaVantageRefreshedStr.includes('T')) { // Already ISO (Alpaca bar timestamps)
+             avRefreshedDate = parseISO(alphaVantageRefreshedStr);
          } else {
             avRefreshedDate = parseISO(alphaVantageRefreshedStr.replace(' ', 'T') + 'Z'); // Attempt standard ISO parse, assume UTC if no TZ
          }
@@ -76,41 +92,91 @@ async function shouldFetchBasedOnMetadata(params: TechnicalIndicator): Promise<b
     }
 }
 
-
-export const scheduleIndicatorFetch = (indicatorParams: TechnicalIndicator): cron.ScheduledTask | null => {
-    const cronPattern = getCronPatternForInterval(indicatorParams.interval);
-    if (!cronPattern) {
+// Equities only produce new bars while their market is open (Alpaca calendar: holidays, early closes, extended hours).
+// Returns why a tick should be skipped, null to go ahead. Crypto trades around the clock.
+async function marketClosedReason(params: TechnicalIndicator): Promise<string | null> {
+    if (isCryptoSymbol(params.symbol)) {
         return null;
     }
+    const now = new Date();
+    const minutes = intervalMinutes(params.interval);
+
+    if (minutes !== null && minutes < 1440) {
+        // A bar may have closed since the previous tick if the market was open at some point during the interval
+        const since = new Date(now.getTime() - minutes * 60 * 1000);
+        const open = await wasEquityMarketOpen(since, now);
+        return open ? null : `market closed (${getSchedulerMarketSession()} session)`;
+    }
 
-    const task = cron.schedule(cronPattern, async () => {
-        const jobKey = generateCacheKey(indicatorParams); // Use cache key for logging
-        console.log(`[${new Date().toISOString()}] Cron trigger for: ${jobKey}`);
-
+    if (params.interval === 'daily') {
         try {
-             // Check if we actually need to call the API based on metadata
-             const needsFetch = await shouldFetchBasedOnMetadata(indicatorParams);
-
-             if (needsFetch) {
-                 console.log(`Metadata indicates fetch needed for ${jobKey}. Calling API.`);
-                // Call the modified getTechnicalIndicator, forceRefresh=true isn't strictly needed
-                // as shouldFetchBasedOnMetadata decided, but internal logic handles cache miss anyway.
-                // The key is that getTechnicalIndicator now PUBLISHES the update event.
-                await getTechnicalIndicator(indicatorParams, true); // Force refresh might be useful here
-                console.log(`Fetch attempt completed for ${jobKey}.`);
-             } else {
-                  console.log(`Metadata indicates data for ${jobKey} is fresh. Skipping API call.`);
-             }
-
-        } catch (error) {
-            console.error(`Error during scheduled fetch for ${jobKey}:`, error);
-            // Implement retry logic or specific error handling here if needed
+            const lastSession = await getLastClosedTradingDay(now);
+            const cachedEntry = await getCachedIndicatorEntry<any>(generateCacheKey(params));
+            const refreshed = cachedEntry?.metadata?.alphaVantageLastRefreshed ?? cachedEntry?.metadata?.lastRefreshed;
+            // Both Alpha Vantage dates and Alpaca daily bar timestamps start with the trading date
+            if (lastSession && typeof refreshed === 'string' && refreshed.slice(0, 10) >= lastSession.date) {
+                return `data already includes the ${lastSession.date} session`;
+            }
+        } catch (error: any) {
+            console.warn(`Could not check the trading calendar for ${params.symbol}, relying on metadata:`, error.message);
         }
-    }, {
-        scheduled: true,
-        // timezone: "UTC" // Specify timezone if needed, e.g., "America/New_York" or "UTC"
-    });
+    }
+    return null;
+}
+
+export type IndicatorFetchOutcome = 'fetched' | 'fresh' | 'market-closed';
+
+// One scheduled fetch: skipped while the market is closed or the cached data is fresh, otherwise refreshed.
+// The provider is chosen by the condition's dataSource; every provider caches under the same key
+// and PUBLISHES the update event.
+export const runIndicatorFetch = async (indicatorParams: TechnicalIndicator): Promise<IndicatorFetchOutcome> => {
+    const jobKey = generateCacheKey(indicatorParams); // Use cache key for logging
+
+    const closedReason = await marketClosedReason(indicatorParams);
+    if (closedReason) {
+        console.log(`Skipping ${jobKey}: ${closedReason}.`);
+        return 'market-closed';
+    }
+
+    // Check if we actually need to call the API based on metadata
+    if (!(await shouldFetchBasedOnMetadata(indicatorParams))) {
+        console.log(`Metadata indicates data for ${jobKey} is fresh. Skipping API call.`);
+        return 'fresh';
+    }
+
+    console.log(`Metadata indicates fetch needed for ${jobKey}. Calling API.`);
+    const data = await refreshIndicator(indicatorParams, true, undefined, 'live');
+    if (data === null) {
+        // Fails the job so the failure is visible in the queue; the next scheduled run tries again
+        throw new Error(`Fetch failed for ${jobKey}`);
+    }
+    console.log(`Fetch attempt completed for ${jobKey}.`);
+    return 'fetched';
+};
+
+// Job scheduler id of an indicator; the cache key is hashed to keep BullMQ job ids short
+export const getIndicatorSchedulerId = (indicatorParams: TechnicalIndicator): string =>
+    `fetch-${createHash('sha1').update(generateCacheKey(indicatorParams)).digest('hex')}`;
 
+// Pattern an indicator's scheduler should have, null when it cannot be scheduled
+export const getIndicatorCronPattern = (indicatorParams: TechnicalIndicator): string | null =>
+    getCronPatternForInterval(indicatorParams.interval, isCryptoSymbol(indicatorParams.symbol));
+
+// Creates or updates the indicator's job scheduler; returns false for intervals that cannot be scheduled
+export const upsertIndicatorFetchScheduler = async (indicatorParams: TechnicalIndicator): Promise<boolean> => {
+    const cronPattern = getIndicatorCronPattern(indicatorParams);
+    if (!cronPattern) {
+        return false;
+    }
+
+    await indicatorQueue.upsertJobScheduler(getIndicatorSchedulerId(indicatorParams), { pattern: cronPattern, tz: 'UTC' }, {
+        name: INDICATOR_FETCH_JOB_NAME,
+        data: indicatorParams,
+        opts: {
+            removeOnComplete: FETCH_JOBS_KEPT.completed,
+            removeOnFail: FETCH_JOBS_KEPT.failed,
+        },
+    });
     console.log(`Scheduled fetch for ${generateCacheKey(indicatorParams)} with pattern: ${cronPattern}`);
-    return task;
-};
\ No newline at end of file
+    return true;
+};
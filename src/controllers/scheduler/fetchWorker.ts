@@ -0,0 +1,37 @@
+// src/controllers/scheduler/fetchWorker.ts
+import { Worker, Job } from 'bullmq';
+import { queueConnection, INDICATOR_QUEUE_NAME } from '../../utils/redisClient';
+import { TechnicalIndicator } from '../technicalIndicators/technicalIndicators';
+import { runIndicatorFetch, IndicatorFetchOutcome, INDICATOR_FETCH_JOB_NAME } from './fetchOrchestrator';
+
+const DEFAULT_FETCH_CONCURRENCY = 5;
+
+let worker: Worker<TechnicalIndicator, IndicatorFetchOutcome> | null = null;
+
+// Fetches are I/O bound, several run at once; every replica can run a worker and each scheduled fetch goes to one of them
+const processIndicatorFetch = async (job: Job<TechnicalIndicator, IndicatorFetchOutcome>): Promise<IndicatorFetchOutcome> => {
+    if (job.name !== INDICATOR_FETCH_JOB_NAME) {
+        throw new Error(`Unknown job ${job.name} on ${INDICATOR_QUEUE_NAME}`);
+    }
+    return runIndicatorFetch(job.data);
+};
+
+export const startIndicatorFetchWorker = () => {
+    if (worker) return worker;
+    const concurrency = parseInt(process.env.INDICATOR_FETCH_CONCURRENCY ?? '', 10) || DEFAULT_FETCH_CONCURRENCY;
+    worker = new Worker<TechnicalIndicator, IndicatorFetchOutcome>(INDICATOR_QUEUE_NAME, processIndicatorFetch, {
+        connection: queueConnection,
+        concurrency,
+    });
+    worker.on('failed', (job, error) => {
+        console.error(`Indicator fetch job ${job?.id} failed:`, error.message);
+    });
+    return worker;
+};
+
+export const stopIndicatorFetchWorker = async () => {
+    if (worker) {
+        await worker.close();
+        worker = null;
+    }
+};
@@ -0,0 +1,112 @@
+// src/controllers/scheduler/marketHours.ts
+/**
+ * US equity trading hours from the Alpaca calendar (holidays, early closes, extended sessions) and clock,
+ * so the scheduler only fetches equity data while the market can produce new bars. Crypto trades 24/7.
+ *
+ * SCHEDULER_MARKET_SESSION picks the session intraday fetches follow: 'extended' (default, 4:00-20:00 ET
+ * including pre/post-market) or 'regular' (9:30-16:00 ET, earlier on early-close days).
+ */
+import alpaca from '../../services/alpacaClient';
+
+export type MarketSession = 'regular' | 'extended';
+
+export const getSchedulerMarketSession = (): MarketSession =>
+    process.env.SCHEDULER_MARKET_SESSION === 'regular' ? 'regular' : 'extended';
+
+export interface TradingDay {
+    date: string; // YYYY-MM-DD (New York)
+    open: Date;
+    close: Date;
+    sessionOpen: Date;
+    sessionClose: Date;
+}
+
+const CALENDAR_DAYS_BACK = 10;
+const CALENDAR_DAYS_AHEAD = 10;
+const CALENDAR_REFRESH_MS = 6 * 60 * 60 * 1000;
+
+let calendarFetch: { days: Promise<TradingDay[]>; fetchedAt: number } | null = null;
+let clockCache: { isOpen: boolean; validUntil: number } | null = null;
+
+// UTC instant of a New York wall-clock time; the calendar gives times as 'HH:MM' or 'HHMM' in America/New_York
+const newYorkTime = (date: string, time: string): Date => {
+    const hhmm = time.includes(':') ? time : `${time.slice(0, 2)}:${time.slice(2, 4)}`;
+    const wallClockAsUtc = new Date(`${date}T${hhmm}:00Z`);
+    const offsetName = new Intl.DateTimeFormat('en-US', { timeZone: 'America/New_York', timeZoneName: 'shortOffset' })
+        .formatToParts(wallClockAsUtc)
+        .find(part => part.type === 'timeZoneName')?.value ?? 'GMT-5';
+    const offsetHours = parseInt(/GMT([+-]\d+)/.exec(offsetName)?.[1] ?? '-5', 10); // -4 (EDT) or -5 (EST)
+    const offsetMinutes = offsetHours * 60;
+    return new Date(wallClockAsUtc.getTime() - offsetMinutes * 60 * 1000);
+};
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const loadTradingDays = async (): Promise<TradingDay[]> => {
+    const now = Date.now();
+    const calendar: any[] = await alpaca.getCalendar({
+        start: toDateString(new Date(now - CALENDAR_DAYS_BACK * 86400 * 1000)),
+        end: toDateString(new Date(now + CALENDAR_DAYS_AHEAD * 86400 * 1000)),
+    });
+    return calendar.map(day => ({
+        date: day.date,
+        open: newYorkTime(day.date, day.open),
+        close: newYorkTime(day.date, day.close),
+        sessionOpen: newYorkTime(day.date, day.session_open ?? day.open),
+        sessionClose: newYorkTime(day.date, day.session_close ?? day.close),
+    }));
+};
+
+// Trading days around today (markets closed on the missing dates), refreshed a few times a day
+export const getTradingDays = (): Promise<TradingDay[]> => {
+    if (calendarFetch && Date.now() - calendarFetch.fetchedAt < CALENDAR_REFRESH_MS) {
+        return calendarFetch.days;
+    }
+    const days = loadTradingDays();
+    calendarFetch = { days, fetchedAt: Date.now() };
+    // A failed fetch must not be reused
+    days.catch(() => { calendarFetch = null; });
+    return days;
+};
+
+// Regular-session state from the Alpaca clock, reused until its next open/close
+const isRegularSessionOpenByClock = async (): Promise<boolean> => {
+    if (clockCache && Date.now() < clockCache.validUntil) {
+        return clockCache.isOpen;
+    }
+    const clock: any = await alpaca.getClock();
+    const nextChange = Date.parse(clock.is_open ? clock.next_close : clock.next_open);
+    clockCache = { isOpen: !!clock.is_open, validUntil: Number.isFinite(nextChange) ? nextChange : Date.now() + 60 * 1000 };
+    return clockCache.isOpen;
+};
+
+/**
+ * Whether the equity market was open in the session at some point between 'from' and 'to', i.e. whether
+ * a bar may have been produced in that window. Falls back to the Alpaca clock (regular session, 'to' only)
+ * when the calendar is unavailable, and to true when neither answers so data never silently goes stale.
+ */
+export const wasEquityMarketOpen = async (from: Date, to: Date, session: MarketSession = getSchedulerMarketSession()): Promise<boolean> => {
+    try {
+        const days = await getTradingDays();
+        return days.some(day => {
+            const opens = session === 'regular' ? day.open : day.sessionOpen;
+            const closes = session === 'regular' ? day.close : day.sessionClose;
+            return opens.getTime() < to.getTime() && closes.getTime() > from.getTime();
+        });
+    } catch (calendarError: any) {
+        console.warn('Alpaca calendar unavailable, falling back to the clock:', calendarError.message);
+    }
+    try {
+        return await isRegularSessionOpenByClock();
+    } catch (clockError: any) {
+        console.warn('Alpaca clock unavailable, assuming the market is open:', clockError.message);
+        return true;
+    }
+};
+
+// The latest trading day whose regular session has closed by 'at', null when the calendar has none
+export const getLastClosedTradingDay = async (at: Date = new Date()): Promise<TradingDay | null> => {
+    const days = await getTradingDays();
+    const closed = days.filter(day => day.close.getTime() <= at.getTime());
+    return closed.length > 0 ? closed[closed.length - 1] : null;
+};
@@ -13,6 +13,7 @@ interface IndicatorUpdatePayload {
     symbol: string;
     interval: string;
     parameters: Record<string, any>; // This is an object
+    dataSource?: string; // Condition.dataSource the data was fetched for, omitted for the default provider
     lastRefreshed?: string;
     fetchTime: string;
 }
@@ -70,10 +71,11 @@ interface ActionRequiredPayload {
 
 }
 
-export const publishActionRequired = async(payload: ActionRequiredPayload) => {
+// Returns the stream message id, or null when the action could not be published
+export const publishActionRequired = async(payload: ActionRequiredPayload): Promise<string | null> => {
     if (!redisClient || !redisClient.isReady) {
         console.error("Redis client not ready. Cannot publish required action");
-        return;
+        return null;
     }
 
     try {
@@ -90,10 +92,52 @@ export const publishActionRequired = async(payload: ActionRequiredPayload) => {
                 streamData[key] = String(value);
             }
         }
-        await redisClient.xAdd(ACTION_STREAM_KEY, "*", streamData);
+        const messageId = await redisClient.xAdd(ACTION_STREAM_KEY, "*", streamData);
         console.log(`Published action required to ${ACTION_STREAM_KEY} for action ${payload.actionId} (strategy ${payload.strategyId})`);
+        return messageId;
         } catch (error) {
             console.error("Error publishing to Redis Stream:", error
         );
+        return null;
+    }
+}
+
+export const STRATEGY_CHANGES_STREAM_KEY = 'strategyChanges';
+const STRATEGY_CHANGES_MAX_LENGTH = 1000; // Consumers only need recent changes, the periodic reconcile covers the rest
+
+export type StrategyChangeType =
+    | 'STRATEGY_CREATED' | 'STRATEGY_UPDATED' | 'STRATEGY_DELETED'
+    | 'BLOCK_CREATED' | 'BLOCK_UPDATED' | 'BLOCK_DELETED';
+
+interface StrategyChangePayload {
+    strategyId: string;
+    change: StrategyChangeType;
+    blockId?: string;
+    isActive?: boolean; // Strategy state after the change, when known
+}
+
+// Tells the scheduler (and anyone else listening) that a strategy's indicators may have changed.
+// Never throws: the change is already saved, the periodic reconcile picks it up if publishing fails.
+export const publishStrategyChange = async (payload: StrategyChangePayload): Promise<void> => {
+    if (!redisClient || !redisClient.isReady) {
+        console.error('Redis client not ready. Cannot publish strategy change.');
+        return;
+    }
+
+    try {
+        const streamData: Record<string, string> = { changedAt: new Date().toISOString() };
+        for (const [key, value] of Object.entries(payload)) {
+            if (value === undefined || value === null) continue;
+            streamData[key] = String(value);
+        }
+        await redisClient.xAdd(STRATEGY_CHANGES_STREAM_KEY, '*', streamData, {
+            TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: STRATEGY_CHANGES_MAX_LENGTH },
+        });
+        console.log(`Published ${payload.change} to ${STRATEGY_CHANGES_STREAM_KEY} for strategy ${payload.strategyId}`);
+    } catch (error) {
+        console.error('Error publishing strategy change to Redis Stream:', error);
     }
-}
\ No newline at end of file
+};
+
+// Messages the evaluation and action consumers gave up on, with their source stream and last error (see streamRetry)
+export const DEAD_LETTER_STREAM_KEY = 'deadLetters';
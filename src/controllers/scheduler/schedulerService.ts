@@ -1,9 +1,10 @@
 /**
  * This module manages the scheduling of tasks to fetch technical indicators (strategies that are submitted) at regular intervals.
- * It uses cron jobs to periodically discover active indicators that need to be fetched and schedules
- * them accordingly. The scheduler ensures that the Redis client is initialized before starting the
- * scheduling process. It maintains a map of scheduled jobs to avoid duplicate scheduling and provides
- * functionality to stop all scheduled tasks when needed.
+ * It discovers the active indicators that need to be fetched whenever a strategy or block change event arrives
+ * on the strategyChanges stream (plus a periodic full reconcile) and keeps one BullMQ job scheduler per indicator
+ * on the indicator queue; the fetch worker (see fetchWorker) runs the jobs they produce. Job schedulers live in
+ * Redis, so they survive restarts and every replica reconciling the same strategies converges on the same set
+ * instead of each process running its own timers.
  * 
  * To: Johnson, Do i really need this code!? We can directly deoploy the strategies that come to the strategy db, but should maintain
  * something like, if the strategy is not active, then we should not deploy it. ### Look into it.
@@ -11,63 +12,149 @@
 
 import cron from 'node-cron';
 import { getTechnicalActiveIndicators } from './technicalStrategySource';
-import { scheduleIndicatorFetch } from './fetchOrchestrator';
-import { initRedis } from '../../utils/redisClient';
+import {
+    INDICATOR_FETCH_JOB_NAME,
+    getIndicatorSchedulerId,
+    getIndicatorCronPattern,
+    upsertIndicatorFetchScheduler,
+} from './fetchOrchestrator';
+import { STRATEGY_CHANGES_STREAM_KEY } from './redisStream';
+import { initRedis, getRedisClient, indicatorQueue } from '../../utils/redisClient';
 import { generateCacheKey } from '../technicalIndicators/cache';
 
-// A map to store scheduled cron jobs, using a unique string key for each job
-const scheduledJobs = new Map<string, cron.ScheduledTask>();
+// Full rediscovery, a safety net for change events that were missed (Redis down, server restarted, ...)
+const FULL_RECONCILE_CRON = '*/15 * * * *';
+
+let reconcileTask: cron.ScheduledTask | null = null;
+let reconcileInFlight: Promise<void> | null = null;
+let reconcileQueued = false;
+
+let changeListener: ReturnType<ReturnType<typeof getRedisClient>['duplicate']> | null = null;
+let listening = false;
+
+// Adds job schedulers for newly active indicators, updates changed patterns and removes the ones no active strategy uses anymore
+const reconcileScheduledJobs = async () => {
+    try {
+        const indicatorsToSchedule = await getTechnicalActiveIndicators();
+        console.log(`Found ${indicatorsToSchedule.length} unique active indicators to schedule.`);
+
+        // Schedulers currently stored in Redis, by id
+        const existingSchedulers = await indicatorQueue.getJobSchedulers(0, -1);
+        const existingPatterns = new Map<string, string | null | undefined>();
+        existingSchedulers
+            .filter(scheduler => scheduler.name === INDICATOR_FETCH_JOB_NAME)
+            .forEach(scheduler => existingPatterns.set(scheduler.key, scheduler.pattern));
+
+        // Create a set of desired scheduler ids
+        const desiredIds = new Set<string>();
+
+        for (const indicatorParams of indicatorsToSchedule) {
+            const schedulerId = getIndicatorSchedulerId(indicatorParams);
+            desiredIds.add(schedulerId);
+
+            // Upserting is idempotent, skip it when the stored scheduler already has the right pattern
+            if (existingPatterns.has(schedulerId) && existingPatterns.get(schedulerId) === getIndicatorCronPattern(indicatorParams)) {
+                continue;
+            }
+            try {
+                await upsertIndicatorFetchScheduler(indicatorParams);
+            } catch (error: any) {
+                console.error(`Failed to schedule ${generateCacheKey(indicatorParams)}:`, error.message);
+            }
+        }
+
+        // Prune schedulers that are no longer needed
+        for (const schedulerId of existingPatterns.keys()) {
+            if (!desiredIds.has(schedulerId)) {
+                await indicatorQueue.removeJobScheduler(schedulerId);
+                console.log(`Removed job scheduler ${schedulerId}`);
+            }
+        }
+
+    } catch (error) {
+        console.error('Error during indicator discovery:', error);
+    }
+};
+
+// Reconciles now; calls made while one is running coalesce into a single extra run after it
+const requestReconcile = (reason: string): Promise<void> => {
+    if (reconcileInFlight) {
+        reconcileQueued = true;
+        return reconcileInFlight;
+    }
+    reconcileInFlight = (async () => {
+        do {
+            reconcileQueued = false;
+            console.log(`Reconciling scheduled indicator jobs (${reason})...`);
+            await reconcileScheduledJobs();
+        } while (reconcileQueued);
+    })().finally(() => {
+        reconcileInFlight = null;
+    });
+    return reconcileInFlight;
+};
+
+// Reads strategy/block change events on a dedicated connection (XREAD blocks it) and reconciles on each batch
+const listenForStrategyChanges = async () => {
+    const client = getRedisClient().duplicate();
+    client.on('error', (err) => console.error('Strategy change listener Redis Error:', err));
+    await client.connect();
+    changeListener = client;
+
+    // Start after the newest existing event; the startup reconcile already covers everything before it
+    const [latest] = await client.xRevRange(STRATEGY_CHANGES_STREAM_KEY, '+', '-', { COUNT: 1 });
+    let lastId = latest?.id ?? '0-0';
+    console.log(`Listening for strategy changes on ${STRATEGY_CHANGES_STREAM_KEY} after ${lastId}`);
+
+    while (listening) {
+        try {
+            const response = await client.xRead(
+                { key: STRATEGY_CHANGES_STREAM_KEY, id: lastId },
+                { COUNT: 100, BLOCK: 5000 }
+            );
+            if (!response) continue;
+
+            const changes: string[] = [];
+            for (const stream of response) {
+                for (const message of stream.messages) {
+                    lastId = message.id;
+                    changes.push(`${message.message.change} ${message.message.strategyId}`);
+                }
+            }
+            if (changes.length > 0) {
+                await requestReconcile(changes.join(', '));
+            }
+        } catch (err) {
+            if (!listening) break; // Connection closed by stopScheduler
+            console.error('Error reading strategy changes:', err);
+            await new Promise(resolve => setTimeout(resolve, 5000));
+        }
+    }
+};
 
 export const startScheduler = async () => {
     console.log('Starting scheduler...');
     await initRedis(); // Make sure Redis client is connected
 
-    // Run periodically (e.g., every 5 minutes) to discover new/removed strategies/indicators
-    cron.schedule('*/1 * * * *', async () => {
-        console.log('Running indicator discovery task...');
-        try {
-            const indicatorsToSchedule = await getTechnicalActiveIndicators();
-            console.log(`Found ${indicatorsToSchedule.length} unique active indicators to schedule.`);
-
-            // Create a set of new job keys
-            const newJobKeys = new Set<string>();
-
-            indicatorsToSchedule.forEach(indicatorParams => {
-                // Use generateCacheKey to create a unique job key
-                const jobKey = generateCacheKey(indicatorParams);
-                newJobKeys.add(jobKey);
-
-                if (!scheduledJobs.has(jobKey)) {
-                    // Schedule the actual fetch based on interval
-                    const task = scheduleIndicatorFetch(indicatorParams);
-                    if (task) {
-                        scheduledJobs.set(jobKey, task);
-                        console.log(`Scheduled job for ${jobKey}`);
-                    }
-                }
-            });
-
-            // Prune jobs that are no longer needed
-            scheduledJobs.forEach((task, key) => {
-                if (!newJobKeys.has(key)) {
-                    task.stop();
-                    scheduledJobs.delete(key);
-                    console.log(`Removed job for ${key}`);
-                }
-            });
+    await requestReconcile('startup');
 
-        } catch (error) {
-            console.error('Error during indicator discovery:', error);
-        }
+    // Strategy and block changes are applied as they happen
+    listening = true;
+    listenForStrategyChanges().catch(err => {
+        console.error('Strategy change listener stopped, relying on the periodic reconcile:', err);
     });
-    console.log('Scheduler started. Indicator discovery runs every 5 minutes.');
+
+    reconcileTask = cron.schedule(FULL_RECONCILE_CRON, () => requestReconcile('periodic'));
+    console.log(`Scheduler started. Jobs follow strategy change events, with a full reconcile on '${FULL_RECONCILE_CRON}'.`);
 };
 
 export const stopScheduler = () => {
     console.log("Stopping scheduler...");
-    scheduledJobs.forEach((task, key) => {
-        task.stop();
-        scheduledJobs.delete(key);
-    });
+    listening = false;
+    changeListener?.disconnect().catch(() => undefined); // Aborts the blocking XREAD
+    changeListener = null;
+    reconcileTask?.stop();
+    reconcileTask = null;
+    // Job schedulers stay in Redis; the fetch worker is stopped separately (stopIndicatorFetchWorker)
     console.log("Scheduler stopped.");
-}
\ No newline at end of file
+}
@@ -0,0 +1,257 @@
+// src/controllers/scheduler/streamRetry.ts
+/**
+ * Retry policy and dead-lettering shared by the Redis stream consumers (evaluation and action).
+ *
+ * A message is only acknowledged once it was processed. When processing throws, the message stays pending
+ * for the consumer that read it; retryPendingMessages (called from the consumer loop) finds it with XPENDING,
+ * waits for an exponential backoff (STREAM_RETRY_BASE_MS * 2^(deliveries - 1), capped at STREAM_RETRY_MAX_MS)
+ * and claims it again with XCLAIM, which also counts the delivery. After STREAM_MAX_DELIVERIES deliveries, or
+ * right away for a PoisonMessageError, the message is copied to the dead-letter stream and acknowledged.
+ * Dead letters can be listed, inspected, replayed onto their source stream or discarded (see deadLetterController).
+ *
+ * Consumer names include the process id, so a crashed or restarted process leaves its pending messages behind.
+ * recoverStuckMessages (also called from the consumer loop, every STREAM_RECOVERY_INTERVAL_MS) takes over messages
+ * idle for longer than STREAM_RECLAIM_IDLE_MS with XAUTOCLAIM, processes them under the same retry policy and
+ * deletes consumers idle for STREAM_DEAD_CONSUMER_IDLE_MS once they have nothing pending.
+ */
+import { getRedisClient } from '../../utils/redisClient';
+import { DEAD_LETTER_STREAM_KEY } from './redisStream';
+
+// A message that can never be processed (malformed payload, invalid parameters); dead-lettered without retries
+export class PoisonMessageError extends Error {}
+
+export type StreamPayload = Record<string, string>;
+
+export interface StreamConsumerConfig {
+    stream: string;
+    group: string;
+    consumer: string;
+    handle: (messageId: string, payload: StreamPayload) => Promise<void>; // Throws when processing fails
+}
+
+export interface DeadLetter {
+    id: string; // Id in the dead-letter stream
+    sourceStream: string;
+    group: string;
+    consumer: string;
+    originalId: string;
+    deliveries: number;
+    error: string;
+    failedAt: string;
+    payload: StreamPayload;
+}
+
+const RETRY_BATCH = 50;
+
+const readNumber = (name: string, fallback: number): number => {
+    const value = parseInt(process.env[name] ?? '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const getRetryPolicy = () => ({
+    maxDeliveries: readNumber('STREAM_MAX_DELIVERIES', 5),
+    baseDelayMs: readNumber('STREAM_RETRY_BASE_MS', 5000),
+    maxDelayMs: readNumber('STREAM_RETRY_MAX_MS', 5 * 60 * 1000),
+});
+
+// How long a message that failed 'deliveries' times waits before the next attempt
+const backoffMs = (deliveries: number): number => {
+    const { baseDelayMs, maxDelayMs } = getRetryPolicy();
+    return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, deliveries - 1));
+};
+
+// Copies the message to the dead-letter stream and acknowledges it on its source stream
+const deadLetterMessage = async (
+    config: StreamConsumerConfig,
+    messageId: string,
+    payload: StreamPayload,
+    deliveries: number,
+    error: any
+) => {
+    const redisClient = getRedisClient();
+    const deadLetterId = await redisClient.xAdd(DEAD_LETTER_STREAM_KEY, '*', {
+        sourceStream: config.stream,
+        group: config.group,
+        consumer: config.consumer,
+        originalId: messageId,
+        deliveries: String(deliveries),
+        error: error?.message ?? String(error),
+        failedAt: new Date().toISOString(),
+        payload: JSON.stringify(payload),
+    });
+    await redisClient.xAck(config.stream, config.group, messageId);
+    console.error(`Dead-lettered message ${messageId} from ${config.stream} as ${deadLetterId} after ${deliveries} deliveries: ${error?.message ?? error}`);
+};
+
+/**
+ * Processes one delivery of a message: acknowledges it on success, dead-letters it when it is poison or out of
+ * deliveries, and otherwise leaves it pending so retryPendingMessages picks it up after the backoff.
+ */
+export const processStreamMessage = async (
+    config: StreamConsumerConfig,
+    messageId: string,
+    payload: StreamPayload,
+    deliveries: number = 1
+): Promise<void> => {
+    try {
+        // Handlers may rewrite fields while parsing; the dead letter keeps the original payload
+        await config.handle(messageId, { ...payload });
+        await getRedisClient().xAck(config.stream, config.group, messageId);
+        console.log(`Acknowledged message ${messageId}`);
+    } catch (error: any) {
+        const { maxDeliveries } = getRetryPolicy();
+        if (error instanceof PoisonMessageError || deliveries >= maxDeliveries) {
+            await deadLetterMessage(config, messageId, payload, deliveries, error);
+            return;
+        }
+        console.error(`Error processing message ${messageId} (delivery ${deliveries}/${maxDeliveries}), retrying in ${backoffMs(deliveries)} ms:`, error?.message ?? error);
+    }
+};
+
+// Retries this consumer's failed messages whose backoff has elapsed, oldest first
+export const retryPendingMessages = async (config: StreamConsumerConfig): Promise<void> => {
+    const redisClient = getRedisClient();
+    const pending = await redisClient.xPendingRange(config.stream, config.group, '-', '+', RETRY_BATCH, {
+        consumer: config.consumer,
+        IDLE: getRetryPolicy().baseDelayMs,
+    });
+
+    for (const entry of pending) {
+        const messageId = String(entry.id);
+        const waitMs = backoffMs(entry.deliveriesCounter);
+        if (entry.millisecondsSinceLastDelivery < waitMs) continue;
+
+        // Claiming resets the idle time and counts the delivery; another consumer may have taken it meanwhile
+        const [claimed] = await redisClient.xClaim(config.stream, config.group, config.consumer, waitMs, messageId);
+        if (claimed === undefined) continue;
+        if (claimed === null) {
+            // The entry was trimmed from the stream, nothing left to process
+            await redisClient.xAck(config.stream, config.group, messageId);
+            continue;
+        }
+        await processStreamMessage(config, messageId, claimed.message, entry.deliveriesCounter + 1);
+    }
+};
+
+const toDeadLetter = (id: string, fields: Record<string, string>): DeadLetter => {
+    let payload: StreamPayload = {};
+    try {
+        payload = JSON.parse(fields.payload ?? '{}');
+    } catch {
+        payload = { raw: fields.payload };
+    }
+    return {
+        id,
+        sourceStream: fields.sourceStream,
+        group: fields.group,
+        consumer: fields.consumer,
+        originalId: fields.originalId,
+        deliveries: parseInt(fields.deliveries ?? '0', 10),
+        error: fields.error,
+        failedAt: fields.failedAt,
+        payload,
+    };
+};
+
+// Dead letters newest first, optionally only those of one source stream
+export const listDeadLetters = async (limit: number, sourceStream?: string): Promise<DeadLetter[]> => {
+    const redisClient = getRedisClient();
+    const deadLetters: DeadLetter[] = [];
+    let end = '+';
+    while (deadLetters.length < limit) {
+        const batch = await redisClient.xRevRange(DEAD_LETTER_STREAM_KEY, end, '-', { COUNT: limit });
+        for (const entry of batch) {
+            const deadLetter = toDeadLetter(entry.id, entry.message);
+            if (!sourceStream || deadLetter.sourceStream === sourceStream) deadLetters.push(deadLetter);
+            if (deadLetters.length === limit) break;
+        }
+        if (batch.length < limit) break;
+        end = `(${batch[batch.length - 1].id}`; // Exclusive, continue before the last entry read
+    }
+    return deadLetters;
+};
+
+export const getDeadLetter = async (id: string): Promise<DeadLetter | null> => {
+    const [entry] = await getRedisClient().xRange(DEAD_LETTER_STREAM_KEY, id, id);
+    return entry ? toDeadLetter(entry.id, entry.message) : null;
+};
+
+// Publishes the original payload again on its source stream and removes the dead letter; returns the new message id
+export const replayDeadLetter = async (deadLetter: DeadLetter): Promise<string> => {
+    const redisClient = getRedisClient();
+    const messageId = await redisClient.xAdd(deadLetter.sourceStream, '*', deadLetter.payload);
+    await redisClient.xDel(DEAD_LETTER_STREAM_KEY, deadLetter.id);
+    console.log(`Replayed dead letter ${deadLetter.id} onto ${deadLetter.sourceStream} as ${messageId}`);
+    return messageId;
+};
+
+// Returns false when there was no such dead letter
+export const discardDeadLetter = async (id: string): Promise<boolean> => {
+    const removed = await getRedisClient().xDel(DEAD_LETTER_STREAM_KEY, id);
+    return removed > 0;
+};
+
+export const getRecoveryPolicy = () => {
+    const { maxDelayMs } = getRetryPolicy();
+    return {
+        intervalMs: readNumber('STREAM_RECOVERY_INTERVAL_MS', 60 * 1000),
+        // Live consumers retry their own failures within maxDelayMs, so only messages idle for longer are stranded
+        reclaimIdleMs: Math.max(readNumber('STREAM_RECLAIM_IDLE_MS', 10 * 60 * 1000), 2 * maxDelayMs),
+        deadConsumerIdleMs: readNumber('STREAM_DEAD_CONSUMER_IDLE_MS', 60 * 60 * 1000),
+    };
+};
+
+// Last recovery pass per stream|group|consumer
+const lastRecoveryAt = new Map<string, number>();
+
+// Takes over messages stranded by other consumers and processes them; returns how many were reclaimed
+const reclaimStuckMessages = async (config: StreamConsumerConfig, reclaimIdleMs: number): Promise<number> => {
+    const redisClient = getRedisClient();
+    let reclaimed = 0;
+    let start = '0-0';
+    do {
+        const { nextId, messages } = await redisClient.xAutoClaim(
+            config.stream, config.group, config.consumer, reclaimIdleMs, start, { COUNT: RETRY_BATCH }
+        );
+        for (const message of messages) {
+            if (!message) continue; // Trimmed from the stream; XAUTOCLAIM drops it from the pending list
+            reclaimed++;
+            // The claim counted as a delivery; XPENDING has the total across consumers
+            const [entry] = await redisClient.xPendingRange(config.stream, config.group, message.id, message.id, 1);
+            const deliveries = entry?.deliveriesCounter ?? 1;
+            console.warn(`Reclaimed message ${message.id} on ${config.stream} (delivery ${deliveries}) for ${config.consumer}`);
+            await processStreamMessage(config, message.id, message.message, deliveries);
+        }
+        start = String(nextId);
+    } while (start !== '0-0');
+    return reclaimed;
+};
+
+// Deletes consumers that stopped reading long ago; only once nothing is pending, deleting drops their pending entries
+const removeDeadConsumers = async (config: StreamConsumerConfig, deadConsumerIdleMs: number) => {
+    const redisClient = getRedisClient();
+    const consumers = await redisClient.xInfoConsumers(config.stream, config.group);
+    for (const consumer of consumers) {
+        const name = String(consumer.name);
+        if (name === config.consumer || consumer.pending > 0 || consumer.idle < deadConsumerIdleMs) continue;
+        await redisClient.xGroupDelConsumer(config.stream, config.group, name);
+        console.log(`Removed dead consumer ${name} from ${config.group} on ${config.stream} (idle ${Math.round(consumer.idle / 1000)}s)`);
+    }
+};
+
+/**
+ * Reclaims and processes messages stranded by dead consumers, then removes the dead consumers.
+ * Does nothing until STREAM_RECOVERY_INTERVAL_MS has passed since the previous pass (the first call always runs).
+ */
+export const recoverStuckMessages = async (config: StreamConsumerConfig): Promise<void> => {
+    const { intervalMs, reclaimIdleMs, deadConsumerIdleMs } = getRecoveryPolicy();
+    const recoveryKey = `${config.stream}|${config.group}|${config.consumer}`;
+    if (Date.now() - (lastRecoveryAt.get(recoveryKey) ?? 0) < intervalMs) return;
+    lastRecoveryAt.set(recoveryKey, Date.now());
+
+    const reclaimed = await reclaimStuckMessages(config, reclaimIdleMs);
+    if (reclaimed > 0) {
+        console.log(`Recovered ${reclaimed} stuck messages on ${config.stream} for ${config.consumer}`);
+    }
+    await removeDeadConsumers(config, deadConsumerIdleMs);
+};
@@ -3,6 +3,7 @@
 // The function returns a list of unique technical indicators, each represented by a specific set of attributes.
 
 import { PrismaClient, Prisma} from '@prisma/client';
+import { EXPRESSION_INDICATOR_TYPE, compileExpressionCondition } from '../evaluationService/expression';
 
 const prisma = new PrismaClient();
 
@@ -13,12 +14,28 @@ interface TechnicalIndicatorIdentifier {
     interval: string;
     parameters: Record<string, any>; // Prisma stores Json as object
     dataSource?: string | null; 
-    dataKey?: string | null;
 }
 
 export const getTechnicalActiveIndicators = async (): Promise<TechnicalIndicatorIdentifier[]> => {
+    // EXPRESSION conditions have nothing to fetch themselves, their references are scheduled instead
+    const expressionConditions = await prisma.condition.findMany({
+        where: {
+            indicatorType: EXPRESSION_INDICATOR_TYPE,
+            strategyBlocks: { some: { strategy: { isActive: true } } },
+        },
+    });
+    const referenceConditions = expressionConditions.flatMap(condition => {
+        try {
+            return compileExpressionCondition(condition).references.map(reference => reference.condition);
+        } catch (error: any) {
+            console.warn(`Condition ${condition.id} has an invalid expression, its references are not scheduled: ${error.message}`);
+            return [];
+        }
+    });
+
     const activeConditions = await prisma.condition.findMany({
         where: {
+            indicatorType: { not: EXPRESSION_INDICATOR_TYPE },
             // Ensure the condition is actually used in an active strategy's block tree
             strategyBlocks: {
                 some: { // Check if this condition is linked to AT LEAST ONE block...
@@ -36,19 +53,20 @@ export const getTechnicalActiveIndicators = async (): Promise<TechnicalIndicator
             interval: true,
             parameters: true,
             dataSource: true, // Include new fields if needed by caching/fetching
-            dataKey: true,
         },
-        // Distinct based on the unique properties of the data source needed
-        distinct: ['indicatorType', 'symbol', 'interval', 'parameters', /* 'dataSource', 'dataKey' */],
+        // Distinct based on the unique properties of the data source needed; dataKey only picks a series of the
+        // response at evaluation time, so conditions reading different series of one indicator share one fetch
+        distinct: ['indicatorType', 'symbol', 'interval', 'parameters', 'dataSource'],
     });
 
     // Post-fetch filtering for robustness (especially with JSON parameters)
     const technicalIndicators = new Map<string, TechnicalIndicatorIdentifier>();
-    activeConditions.forEach(cond => {
+    [...activeConditions, ...referenceConditions].forEach(cond => {
         // Create a stable key for uniqueness check
         const paramKey = JSON.stringify(cond.parameters || {});
         // Include symbol/interval which might be null now in the schema
-        const key = `${cond.indicatorType}|${cond.symbol || 'NOSYMBOL'}|${cond.interval || 'NOINTERVAL'}|${paramKey}`; // Handle potential nulls
+        // dataSource is part of the cache key, each provider is fetched and cached on its own
+        const key = `${cond.indicatorType}|${cond.symbol || 'NOSYMBOL'}|${cond.interval || 'NOINTERVAL'}|${paramKey}|${cond.dataSource || ''}`; // Handle potential nulls
 
         if (!technicalIndicators.has(key)) {
             // Ensure parameters is an object, handle potential nulls for symbol/interval
@@ -70,7 +88,6 @@ export const getTechnicalActiveIndicators = async (): Promise<TechnicalIndicator
                 interval: interval,
                 parameters: paramsObject,
                 dataSource: cond.dataSource,
-                dataKey: cond.dataKey,
             });
         }
     });
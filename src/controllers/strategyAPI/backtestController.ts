@@ -0,0 +1,60 @@
+// src/controllers/strategyAPI/backtestController.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../../utils/prisma/prisma';
+import { runBacktest, BacktestError, BacktestOptions } from '../backtestService/backtester';
+
+// Checks the backtest request body, returning an error message or null when it is usable
+export const validateBacktestOptions = (body: any): string | null => {
+    const { start, end, initialCapital, interval, warmupBars } = body ?? {};
+    if (!start || !end || isNaN(Date.parse(start)) || isNaN(Date.parse(end))) {
+        return 'start and end must be valid dates';
+    }
+    if (Date.parse(start) >= Date.parse(end)) {
+        return 'start must be before end';
+    }
+    if (Date.parse(end) > Date.now()) {
+        return 'end cannot be in the future';
+    }
+    if (initialCapital !== undefined && (typeof initialCapital !== 'number' || initialCapital <= 0)) {
+        return 'initialCapital must be a positive number';
+    }
+    if (interval !== undefined && typeof interval !== 'string') {
+        return 'interval must be a string such as "daily" or "15min"';
+    }
+    if (warmupBars !== undefined && (!Number.isInteger(warmupBars) || warmupBars < 0)) {
+        return 'warmupBars must be a non-negative integer';
+    }
+    return null;
+};
+
+/**
+ * Replays the strategy over historical bars.
+ * Body: { start, end, initialCapital?, interval?, warmupBars? }
+ * Returns the equity curve, the simulated trades and summary statistics.
+ */
+export const backtestStrategy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { strategyId } = req.params;
+
+    const validationError = validateBacktestOptions(req.body);
+    if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+    }
+
+    try {
+        const strategy = await prisma.strategy.findUnique({ where: { id: strategyId }, select: { id: true } });
+        if (!strategy) {
+            res.status(404).json({ error: `Strategy with ID ${strategyId} not found` });
+            return;
+        }
+
+        const result = await runBacktest(strategyId, req.body as BacktestOptions);
+        res.status(200).json(result);
+    } catch (error) {
+        if (error instanceof BacktestError) {
+            res.status(422).json({ error: error.message });
+            return;
+        }
+        next(error);
+    }
+};
@@ -0,0 +1,36 @@
+// src/controllers/strategyAPI/blockTree.ts
+import { StrategyBlockType } from '@prisma/client';
+
+// Minimal block shape needed to link a flat block list into a tree
+interface TreeableBlock {
+    id: string;
+    parentId: string | null;
+    blockType: StrategyBlockType;
+}
+
+export type BlockTreeNode<T extends TreeableBlock> = T & { children: BlockTreeNode<T>[] };
+
+/**
+ * Links a flat list of blocks (already sorted by 'order') into a tree and returns its root.
+ * Prisma includes only nest to a fixed depth, so the API and the evaluator both build the tree in memory.
+ * Falls back to a parentless ROOT block if rootBlockId is missing or dangling.
+ */
+export const buildBlockTree = <T extends TreeableBlock>(
+    blocks: T[],
+    rootBlockId: string | null
+): BlockTreeNode<T> | null => {
+    const blocksById = new Map<string, BlockTreeNode<T>>();
+    for (const block of blocks) {
+        blocksById.set(block.id, { ...block, children: [] });
+    }
+    for (const block of blocksById.values()) {
+        if (block.parentId && blocksById.has(block.parentId)) {
+            blocksById.get(block.parentId)!.children.push(block); // Insertion keeps the 'order' sort
+        }
+    }
+
+    if (rootBlockId && blocksById.has(rootBlockId)) {
+        return blocksById.get(rootBlockId)!;
+    }
+    return Array.from(blocksById.values()).find(b => b.blockType === StrategyBlockType.ROOT && !b.parentId) ?? null;
+};
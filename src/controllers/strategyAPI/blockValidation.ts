@@ -0,0 +1,220 @@
+// src/controllers/strategyAPI/blockValidation.ts
+import { BlockBranch, ConditionQualifier, FiringMode, Operator, Prisma, StrategyBlockType } from '@prisma/client';
+import {
+    GroupOperator, WeightMethod, FilterMetric, ConditionInputDto, FiringSettingsDto,
+    GroupBlockParameters, WeightBlockParameters, AssetBlockParameters, FilterBlockParameters
+} from './strategyApiTypes';
+import { MULTI_OUTPUT_INDICATOR_KEYS } from '../technicalIndicators/localIndicators';
+import { EXPRESSION_INDICATOR_TYPE, parseExpression, collectReferences, ExpressionNode } from '../evaluationService/expression';
+
+const GROUP_OPERATORS: GroupOperator[] = ['all', 'any', 'none', 'atLeast'];
+const WEIGHT_METHODS: WeightMethod[] = ['equal', 'fixed', 'inverseVolatility', 'marketCap'];
+const FILTER_METRICS: FilterMetric[] = ['momentum', 'volatility', 'price', 'rsi', 'sma', 'ema'];
+export const MAX_LOOKBACK_BARS = 100; // Live data and backtests both hand the evaluator at least this many points
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns an error message if the GROUP parameters are invalid, null otherwise
+export const validateGroupParameters = (parameters: unknown): string | null => {
+    if (parameters === undefined || parameters === null) return null;
+    if (!isPlainObject(parameters)) {
+        return 'GROUP block parameters must be an object';
+    }
+
+    const { operator, minimum } = parameters;
+    if (operator === undefined) return null; // Defaults to 'all'
+
+    if (!GROUP_OPERATORS.includes(operator)) {
+        return `GROUP operator must be one of: ${GROUP_OPERATORS.join(', ')}`;
+    }
+    if (operator === 'atLeast' && (!Number.isInteger(minimum) || minimum < 1)) {
+        return "GROUP operator 'atLeast' requires a positive integer 'minimum'";
+    }
+    return null;
+};
+
+export const validateWeightParameters = (parameters: unknown): string | null => {
+    if (!isPlainObject(parameters)) {
+        return 'WEIGHT block parameters must be an object';
+    }
+    const { method, lookbackDays } = parameters;
+    if (!WEIGHT_METHODS.includes(method)) {
+        return `WEIGHT method must be one of: ${WEIGHT_METHODS.join(', ')}`;
+    }
+    if (lookbackDays !== undefined && (!Number.isInteger(lookbackDays) || lookbackDays < 2)) {
+        return "WEIGHT 'lookbackDays' must be an integer of at least 2";
+    }
+    return null;
+};
+
+export const validateAssetParameters = (parameters: unknown): string | null => {
+    if (!isPlainObject(parameters)) {
+        return 'ASSET block parameters must be an object';
+    }
+    const { symbol, weight, marketCap } = parameters;
+    if (typeof symbol !== 'string' || symbol.trim() === '') {
+        return "ASSET blocks require a 'symbol'";
+    }
+    if (weight !== undefined && (typeof weight !== 'number' || weight < 0 || weight > 100)) {
+        return "ASSET 'weight' must be a percentage between 0 and 100";
+    }
+    if (marketCap !== undefined && (typeof marketCap !== 'number' || marketCap <= 0)) {
+        return "ASSET 'marketCap' must be a positive number";
+    }
+    return null;
+};
+
+export const validateFilterParameters = (parameters: unknown): string | null => {
+    if (!isPlainObject(parameters)) {
+        return 'FILTER block parameters must be an object';
+    }
+    const { metric, period, select, count } = parameters;
+    if (!FILTER_METRICS.includes(metric)) {
+        return `FILTER metric must be one of: ${FILTER_METRICS.join(', ')}`;
+    }
+    if (period !== undefined && (!Number.isInteger(period) || period < 1)) {
+        return "FILTER 'period' must be a positive integer";
+    }
+    if (select !== 'top' && select !== 'bottom') {
+        return "FILTER 'select' must be 'top' or 'bottom'";
+    }
+    if (!Number.isInteger(count) || count < 1) {
+        return "FILTER 'count' must be a positive integer";
+    }
+    return null;
+};
+
+// Type guards for parameters read back from stored blocks, which may have been written before they were validated
+export const isGroupBlockParameters = (parameters: unknown): parameters is GroupBlockParameters | null =>
+    validateGroupParameters(parameters) === null;
+export const isWeightBlockParameters = (parameters: unknown): parameters is WeightBlockParameters =>
+    validateWeightParameters(parameters) === null;
+export const isAssetBlockParameters = (parameters: unknown): parameters is AssetBlockParameters =>
+    validateAssetParameters(parameters) === null;
+export const isFilterBlockParameters = (parameters: unknown): parameters is FilterBlockParameters =>
+    validateFilterParameters(parameters) === null;
+
+// Validates block parameters according to the block type. Returns an error message or null.
+// Only for parameters actually sent: updates that omit them (moving a FILTER, WEIGHT or ASSET block) skip this.
+export const validateBlockParameters = (
+    blockType: StrategyBlockType,
+    parameters: Prisma.InputJsonValue
+): string | null => {
+    switch (blockType) {
+        case StrategyBlockType.GROUP:
+            return validateGroupParameters(parameters);
+        case StrategyBlockType.WEIGHT:
+            return validateWeightParameters(parameters);
+        case StrategyBlockType.ASSET:
+            return validateAssetParameters(parameters);
+        case StrategyBlockType.FILTER:
+            return validateFilterParameters(parameters);
+        default:
+            return null;
+    }
+};
+
+// Multi-output indicators need a dataKey naming one of their series; other indicators may name their single key
+export const validateConditionDataKey = (indicatorType: string, dataKey: unknown): string | null => {
+    if (dataKey !== undefined && dataKey !== null && (typeof dataKey !== 'string' || dataKey.trim() === '')) {
+        return 'dataKey must be a non-empty string';
+    }
+    const outputKeys = MULTI_OUTPUT_INDICATOR_KEYS[indicatorType];
+    if (outputKeys && (typeof dataKey !== 'string' || !outputKeys.includes(dataKey))) {
+        return `${indicatorType} returns several series, dataKey must be one of: ${outputKeys.join(', ')}`;
+    }
+    return null;
+};
+
+// EXPRESSION conditions need a parsable expression, a right-hand side and a symbol for every reference
+export const validateExpressionCondition = (details: ConditionInputDto): string | null => {
+    if (details.indicatorType !== EXPRESSION_INDICATOR_TYPE) {
+        if (details.expression !== undefined || details.targetExpression !== undefined) {
+            return `expression and targetExpression require indicatorType ${EXPRESSION_INDICATOR_TYPE}`;
+        }
+        return null;
+    }
+
+    const sides: ExpressionNode[] = [];
+    for (const [field, text] of [['expression', details.expression], ['targetExpression', details.targetExpression]] as const) {
+        if (text === undefined && field === 'targetExpression') continue;
+        try {
+            sides.push(parseExpression(text as string));
+        } catch (error: any) {
+            return `${field}: ${error.message}`;
+        }
+    }
+    if (details.targetExpression === undefined && typeof details.targetValue !== 'number') {
+        return 'EXPRESSION conditions need a targetExpression or a targetValue';
+    }
+    if (details.targetIndicatorId) {
+        return 'EXPRESSION conditions compare against targetExpression, not targetIndicatorId';
+    }
+    if (!details.interval) {
+        return 'EXPRESSION conditions need an interval, shared by all their references';
+    }
+    const withoutSymbol = sides.flatMap(side => collectReferences(side)).find(reference => !reference.symbol);
+    if (withoutSymbol && !details.symbol) {
+        return `${withoutSymbol.indicatorType} has no symbol, add one to the reference or set the condition's symbol`;
+    }
+    return null;
+};
+
+// A qualifier needs lookbackBars (and lookbackBars a qualifier); crossovers cannot happen on consecutive bars
+export const validateConditionQualifier = (details: ConditionInputDto): string | null => {
+    const { qualifier, lookbackBars } = details;
+    if (qualifier === undefined || qualifier === null) {
+        return lookbackBars === undefined || lookbackBars === null ? null : 'lookbackBars requires a qualifier';
+    }
+    if (!Object.values(ConditionQualifier).includes(qualifier)) {
+        return `qualifier must be one of: ${Object.values(ConditionQualifier).join(', ')}`;
+    }
+    if (!Number.isInteger(lookbackBars) || lookbackBars! < 1 || lookbackBars! > MAX_LOOKBACK_BARS) {
+        return `lookbackBars must be an integer between 1 and ${MAX_LOOKBACK_BARS}`;
+    }
+    if (details.indicatorType === EXPRESSION_INDICATOR_TYPE) {
+        return 'qualifiers are not supported on EXPRESSION conditions';
+    }
+    const isCrossover = details.operator === Operator.CROSSES_ABOVE || details.operator === Operator.CROSSES_BELOW;
+    if (qualifier === ConditionQualifier.CONSECUTIVE && isCrossover && lookbackBars! > 1) {
+        return `${details.operator} cannot hold on consecutive bars, use WITHIN`;
+    }
+    return null;
+};
+
+// COOLDOWN needs exactly one of cooldownMinutes/cooldownBars, the other modes neither
+export const validateFiringSettings = (settings: FiringSettingsDto): string | null => {
+    const { firingMode, cooldownMinutes, cooldownBars } = settings;
+    const hasMinutes = cooldownMinutes !== undefined && cooldownMinutes !== null;
+    const hasBars = cooldownBars !== undefined && cooldownBars !== null;
+    if (firingMode !== undefined && firingMode !== null && !Object.values(FiringMode).includes(firingMode)) {
+        return `firingMode must be one of: ${Object.values(FiringMode).join(', ')}`;
+    }
+    if (firingMode !== FiringMode.COOLDOWN) {
+        return hasMinutes || hasBars ? 'cooldownMinutes and cooldownBars require firingMode COOLDOWN' : null;
+    }
+    if (hasMinutes === hasBars) {
+        return 'firingMode COOLDOWN requires exactly one of cooldownMinutes or cooldownBars';
+    }
+    const cooldown = hasMinutes ? cooldownMinutes : cooldownBars;
+    if (!Number.isInteger(cooldown) || cooldown! < 1) {
+        return `${hasMinutes ? 'cooldownMinutes' : 'cooldownBars'} must be a positive integer`;
+    }
+    return null;
+};
+
+// A branch marker only makes sense for children of a CONDITION_IF block
+export const validateBlockBranch = (
+    branch: BlockBranch | null | undefined,
+    parentBlockType: StrategyBlockType | null
+): string | null => {
+    if (branch === undefined || branch === null) return null;
+    if (!Object.values(BlockBranch).includes(branch)) {
+        return `branch must be one of: ${Object.values(BlockBranch).join(', ')}`;
+    }
+    if (parentBlockType !== StrategyBlockType.CONDITION_IF) {
+        return 'branch can only be set on children of a CONDITION_IF block';
+    }
+    return null;
+};
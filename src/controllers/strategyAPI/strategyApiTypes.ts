@@ -1,16 +1,23 @@
 // src/types/strategyApiTypes.ts
-import { StrategyBlockType, Operator, ActionType, Prisma } from '@prisma/client';
+import { StrategyBlockType, Operator, ActionType, BlockBranch, ConditionQualifier, FiringMode, Prisma } from '@prisma/client';
 
 // --- Input DTOs (Data Transfer Objects) ---
 
-export interface CreateStrategyDto {
+// How often reached actions are published; cooldownMinutes or cooldownBars only with COOLDOWN
+export interface FiringSettingsDto {
+  firingMode?: FiringMode;
+  cooldownMinutes?: number;
+  cooldownBars?: number;
+}
+
+export interface CreateStrategyDto extends FiringSettingsDto {
   userId: string;
   name: string;
   description?: string;
   // Add any additional fields if needed
 }
 
-export interface UpdateStrategyDto {
+export interface UpdateStrategyDto extends FiringSettingsDto {
   name?: string;
   description?: string;
   isActive?: boolean;
@@ -28,10 +35,14 @@ export interface ConditionInputDto {
   operator: Operator;
   targetValue?: number;
   targetIndicatorId?: string; // For comparing against another condition's output
+  expression?: string; // EXPRESSION conditions only: left-hand side
+  targetExpression?: string; // EXPRESSION conditions only: right-hand side, instead of targetValue
+  qualifier?: ConditionQualifier; // Look back over the series instead of only the latest point
+  lookbackBars?: number; // Required with a qualifier
 }
 
 // Input for creating an Action record *when creating a block*
-export interface ActionInputDto {
+export interface ActionInputDto extends FiringSettingsDto { // Without firingMode the strategy's applies
   actionType: ActionType;
   parameters: Prisma.InputJsonValue; // Use Prisma's type for JSON
   order?: number;
@@ -42,15 +53,53 @@ export interface CreateBlockDto {
   parameters: Prisma.InputJsonValue; // Use Prisma's type for JSON
   parentId?: string | null; // Can be null for root, or ID of parent
   order?: number;
+  branch?: BlockBranch | null; // THEN (default) or ELSE, only allowed under a CONDITION_IF parent
   conditionDetails?: ConditionInputDto;
   actionDetails?: ActionInputDto;
   // Ensure these match the controller's expectations
 }
 
+// Logical operator a GROUP block applies when combining its CONDITION_IF/GROUP children
+export type GroupOperator = 'all' | 'any' | 'none' | 'atLeast';
+
+// Shape of StrategyBlock.parameters for GROUP blocks
+export interface GroupBlockParameters {
+  operator?: GroupOperator; // Defaults to 'all' (AND)
+  minimum?: number; // Required for 'atLeast': how many children must hold
+}
+
+// Weighting scheme a WEIGHT block applies to its ASSET children
+export type WeightMethod = 'equal' | 'fixed' | 'inverseVolatility' | 'marketCap';
+
+// Shape of StrategyBlock.parameters for WEIGHT blocks
+export interface WeightBlockParameters {
+  method: WeightMethod;
+  lookbackDays?: number; // Volatility window for 'inverseVolatility' (default 20 trading days)
+}
+
+// Shape of StrategyBlock.parameters for ASSET blocks
+export interface AssetBlockParameters {
+  symbol: string; // Ticker, crypto pairs as 'BTC/USD'
+  weight?: number; // Percentage of the WEIGHT block, required for 'fixed'
+  marketCap?: number; // Optional override for 'marketCap' weighting
+}
+
+// Metric a FILTER block ranks its assets by, computed from daily closes
+export type FilterMetric = 'momentum' | 'volatility' | 'price' | 'rsi' | 'sma' | 'ema';
+
+// Shape of StrategyBlock.parameters for FILTER blocks
+export interface FilterBlockParameters {
+  metric: FilterMetric;
+  period?: number; // Lookback in trading days (default 20), e.g. 90 for 90-day momentum
+  select: 'top' | 'bottom'; // Keep the highest or lowest ranked assets
+  count: number; // How many assets to keep
+}
+
 export interface UpdateBlockDto {
   parameters?: Prisma.InputJsonValue;
   parentId?: string | null; // Allow moving the block
   order?: number;
+  branch?: BlockBranch | null;
   // Add logic if you want to allow updating the linked Condition/Action details
   // conditionDetails?: Partial<ConditionInputDto>; // Example for partial updates
   // actionDetails?: Partial<ActionInputDto>;
@@ -61,9 +110,9 @@ export interface UpdateBlockDto {
 // coming from Prisma before sending it in the response. For now, we'll
 // mostly rely on Prisma's generated types for responses.
 
-// Example: Type for returning the block tree structure
+// Type for returning the block tree structure
 export interface StrategyBlockWithChildren extends Prisma.StrategyBlockGetPayload<{
-  include: { children: true, condition: true, action: true } // Example include
+  include: { children: true, condition: true, action: true }
 }> {
   children: StrategyBlockWithChildren[]; // Recursive type
 }
\ No newline at end of file
@@ -6,11 +6,18 @@ import {
   CreateStrategyDto, UpdateStrategyDto, CreateBlockDto, UpdateBlockDto,
   ConditionInputDto, ActionInputDto, StrategyBlockWithChildren // Import types
 } from './strategyApiTypes'
+import {
+    validateBlockParameters, validateBlockBranch, validateConditionDataKey, validateExpressionCondition,
+    validateConditionQualifier, validateFiringSettings
+} from './blockValidation';
+import { INDICATOR_DATA_SOURCES, isIndicatorDataSource } from '../technicalIndicators/indicatorProviders';
+import { isMarketQuantityType } from '../technicalIndicators/snapshotProvider';
+import { publishStrategyChange } from '../scheduler/redisStream';
 
 export const createStrategyBlock = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const { strategyId } = req.params;
     const {
-      blockType, parameters, parentId, order, conditionDetails, actionDetails
+      blockType, parameters, parentId, order, branch, conditionDetails, actionDetails
     } = req.body as CreateBlockDto;
     // TODO: Add input validation
   
@@ -23,6 +30,11 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
          res.status(400).json({ error: 'Cannot manually create a ROOT block. It is created with the strategy.' });
          return;
     }
+    const parametersError = validateBlockParameters(blockType, parameters);
+    if (parametersError) {
+        res.status(400).json({ error: parametersError });
+        return;
+    }
   
     try {
         // Validate strategy exists
@@ -33,13 +45,61 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
         }
   
         // Validate parent block exists and belongs to the same strategy (if parentId provided)
+        let parentBlock: StrategyBlock | null = null;
         if (parentId) {
-            const parentBlock = await prisma.strategyBlock.findUnique({ where: { id: parentId } });
+            parentBlock = await prisma.strategyBlock.findUnique({ where: { id: parentId } });
             if (!parentBlock || parentBlock.strategyId !== strategyId) {
                 res.status(400).json({ error: `Parent block with ID ${parentId} not found or does not belong to strategy ${strategyId}` });
                 return;
             }
         }
+
+        const branchError = validateBlockBranch(branch, parentBlock?.blockType ?? null);
+        if (branchError) {
+            res.status(400).json({ error: branchError });
+            return;
+        }
+
+        // The scheduler resolves the provider from dataSource, reject names it would not know
+        if (conditionDetails?.dataSource != null && !isIndicatorDataSource(conditionDetails.dataSource)) {
+            res.status(400).json({ error: `dataSource must be one of: ${INDICATOR_DATA_SOURCES.join(', ')}` });
+            return;
+        }
+        if (conditionDetails && isMarketQuantityType(conditionDetails.indicatorType) && conditionDetails.dataSource === 'ALPHA_VANTAGE') {
+            res.status(400).json({ error: `${conditionDetails.indicatorType} is read from Alpaca snapshots, dataSource must be ALPACA or FIXTURE` });
+            return;
+        }
+
+        if (conditionDetails) {
+            const conditionError = validateConditionDataKey(conditionDetails.indicatorType, conditionDetails.dataKey)
+                ?? validateExpressionCondition(conditionDetails)
+                ?? validateConditionQualifier(conditionDetails);
+            if (conditionError) {
+                res.status(400).json({ error: conditionError });
+                return;
+            }
+        }
+        if (actionDetails) {
+            const firingError = validateFiringSettings(actionDetails);
+            if (firingError) {
+                res.status(400).json({ error: firingError });
+                return;
+            }
+        }
+
+        // An indicator-vs-indicator crossover is only defined when both series share the same bars
+        if (conditionDetails?.targetIndicatorId) {
+            const targetCondition = await prisma.condition.findUnique({ where: { id: conditionDetails.targetIndicatorId } });
+            if (!targetCondition) {
+                res.status(400).json({ error: `Target indicator condition ${conditionDetails.targetIndicatorId} not found` });
+                return;
+            }
+            const isCrossover = conditionDetails.operator === 'CROSSES_ABOVE' || conditionDetails.operator === 'CROSSES_BELOW';
+            if (isCrossover && targetCondition.interval !== (conditionDetails.interval ?? null)) {
+                res.status(400).json({ error: `${conditionDetails.operator} requires both indicators to use the same interval (got ${conditionDetails.interval} and ${targetCondition.interval})` });
+                return;
+            }
+        }
   
         let conditionId: string | undefined = undefined;
         let actionId: string | undefined = undefined;
@@ -70,6 +130,7 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
                     parameters,
                     parentId: parentId || null, // Ensure null if undefined/empty string
                     order: order ?? 0,
+                    branch: branch ?? null,
                     conditionId, // Link if created
                     actionId,    // Link if created
                 },
@@ -80,6 +141,7 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
             });
         });
   
+        await publishStrategyChange({ strategyId, change: 'BLOCK_CREATED', blockId: newBlock.id });
         res.status(201).json(newBlock);
   
     } catch (error) {
@@ -90,7 +152,7 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
   
   export const updateStrategyBlock = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
       const { strategyId, blockId } = req.params;
-      const { parameters, parentId, order } = req.body as UpdateBlockDto;
+      const { parameters, parentId, order, branch } = req.body as UpdateBlockDto;
       // TODO: Add input validation
       // TODO: Add logic to update linked Condition/Action if needed
   
@@ -107,6 +169,13 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
                res.status(400).json({ error: 'Cannot change the parent of a ROOT block.' });
                return;
           }
+
+          // Omitted parameters are left unchanged, so moving or reordering a block does not need to resend them
+          const parametersError = parameters !== undefined ? validateBlockParameters(block.blockType, parameters) : null;
+          if (parametersError) {
+              res.status(400).json({ error: parametersError });
+              return;
+          }
   
           // Validate new parent block exists and belongs to the same strategy (if parentId provided and changed)
           if (parentId && parentId !== block.parentId) {
@@ -116,6 +185,21 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
                   return;
               }
           }
+
+          // Validate the branch against the parent the block will end up under.
+          // A block moved away from a CONDITION_IF parent loses its branch unless one is given explicitly.
+          const effectiveParentId = parentId !== undefined ? parentId : block.parentId;
+          const effectiveParent = effectiveParentId
+              ? await prisma.strategyBlock.findUnique({ where: { id: effectiveParentId }, select: { blockType: true } })
+              : null;
+          const parentIsConditionIf = effectiveParent?.blockType === 'CONDITION_IF';
+          const effectiveBranch = branch !== undefined ? branch : (parentIsConditionIf ? block.branch : null);
+
+          const branchError = validateBlockBranch(effectiveBranch, effectiveParent?.blockType ?? null);
+          if (branchError) {
+              res.status(400).json({ error: branchError });
+              return;
+          }
   
           const updatedBlock = await prisma.strategyBlock.update({
               where: { id: blockId },
@@ -124,6 +208,7 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
                   // Handle parentId carefully: allow setting to null
                   parentId: parentId !== undefined ? (parentId === null ? null : parentId) : undefined,
                   order,
+                  branch: effectiveBranch,
                   // Add logic here if updating linked condition/action is allowed
               },
                include: { // Include linked items in response
@@ -131,6 +216,7 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
                     action: true
                 }
           });
+          await publishStrategyChange({ strategyId, change: 'BLOCK_UPDATED', blockId });
           res.status(200).json(updatedBlock);
       } catch (error) {
           // Handle specific Prisma error for record not found (though checked above)
@@ -180,6 +266,7 @@ export const createStrategyBlock = async (req: Request, res: Response, next: Nex
             });
         });
   
+        await publishStrategyChange({ strategyId, change: 'BLOCK_DELETED', blockId });
         res.status(204).send(); // No content on successful delete
     } catch (error) {
          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
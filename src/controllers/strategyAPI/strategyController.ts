@@ -6,16 +6,24 @@ import {
   CreateStrategyDto, UpdateStrategyDto, CreateBlockDto, UpdateBlockDto,
   ConditionInputDto, ActionInputDto, StrategyBlockWithChildren // Import types
 } from './strategyApiTypes'
+import { buildBlockTree } from './blockTree';
+import { publishStrategyChange } from '../scheduler/redisStream';
+import { validateFiringSettings } from './blockValidation';
 
 
 export const createStrategy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  const { userId, name, description } = req.body as CreateStrategyDto;
+  const { userId, name, description, firingMode, cooldownMinutes, cooldownBars } = req.body as CreateStrategyDto;
   // TODO: Add input validation (e.g., using Zod)
 
   if (!userId || !name) {
     res.status(400).json({ error: 'userId and name are required' });
     return;
   }
+  const firingError = validateFiringSettings({ firingMode, cooldownMinutes, cooldownBars });
+  if (firingError) {
+    res.status(400).json({ error: firingError });
+    return;
+  }
 
   try {
     // Optionally: Validate userId exists if needed
@@ -33,6 +41,9 @@ export const createStrategy = async (req: Request, res: Response, next: NextFunc
           name,
           description,
           isActive: false, // Default to inactive
+          firingMode,
+          cooldownMinutes,
+          cooldownBars,
         },
       });
 
@@ -60,6 +71,7 @@ export const createStrategy = async (req: Request, res: Response, next: NextFunc
       });
     });
 
+    await publishStrategyChange({ strategyId: strategy.id, change: 'STRATEGY_CREATED', isActive: strategy.isActive });
     res.status(201).json(strategy);
   } catch (error) {
     next(error); // Pass error to error handling middleware
@@ -100,41 +112,9 @@ export const getStrategies = async (req: Request, res: Response, next: NextFunct
 export const getStrategyById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const { strategyId } = req.params;
 
-    // Define a reusable include object for block details
-    const blockInclude = {
-        condition: true,
-        action: true,
-        children: {
-            include: {
-                condition: true,
-                action: true,
-                children: {
-                    include: {
-                        condition: true,
-                        action: true,
-                        children: true // Simplified to boolean for further nesting
-                    },
-                    orderBy: { order: 'asc' as Prisma.SortOrder } // Ensure correct SortOrder type
-                }
-            },
-            orderBy: { order: 'asc' as Prisma.SortOrder } // Ensure correct SortOrder type
-        }
-    };
-
-
     try {
-        // Fetch the strategy, asking Prisma to build the tree starting from rootBlock
         const strategy = await prisma.strategy.findUnique({
             where: { id: strategyId },
-            include: {
-                // Include the rootBlock directly with the nested structure
-                rootBlock: {
-                    include: blockInclude // Use the reusable include
-                }
-                // If you still want the flat list for some reason, keep the 'blocks' include,
-                // but the tree is now primarily accessed via strategy.rootBlock
-                // blocks: { include: { condition: true, action: true }, orderBy: { order: 'asc'} }
-            },
         });
 
         if (!strategy) {
@@ -142,10 +122,26 @@ export const getStrategyById = async (req: Request, res: Response, next: NextFun
             return;
         }
 
-        // The nested tree structure is now available under strategy.rootBlock
-        // No need for the manual buildBlockTree function here
+        // Fetch every block flat and link them in memory, so trees of any depth are returned.
+        // (Nested Prisma includes stop at a fixed depth.)
+        const blocks = await prisma.strategyBlock.findMany({
+            where: { strategyId },
+            include: { condition: true, action: true },
+            orderBy: { order: 'asc' }
+        });
+        const parentTypes = new Map(blocks.map(b => [b.id, b.blockType]));
+
+        // Children of a CONDITION_IF without an explicit branch belong to THEN
+        const normalizedBlocks = blocks.map(block => ({
+            ...block,
+            branch: block.parentId && parentTypes.get(block.parentId) === 'CONDITION_IF'
+                ? (block.branch ?? 'THEN')
+                : null,
+        }));
+        const rootBlock = buildBlockTree(normalizedBlocks, strategy.rootBlockId);
 
-        res.status(200).json(strategy); // Return the strategy object containing the nested tree
+        // The nested tree structure is available under strategy.rootBlock
+        res.status(200).json({ ...strategy, rootBlock });
 
     } catch (error) {
         next(error);
@@ -154,8 +150,13 @@ export const getStrategyById = async (req: Request, res: Response, next: NextFun
 
 export const updateStrategy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const { strategyId } = req.params;
-  const { name, description, isActive } = req.body as UpdateStrategyDto;
+  const { name, description, isActive, firingMode, cooldownMinutes, cooldownBars } = req.body as UpdateStrategyDto;
   // TODO: Add input validation
+  const firingError = validateFiringSettings({ firingMode, cooldownMinutes, cooldownBars });
+  if (firingError) {
+    res.status(400).json({ error: firingError });
+    return;
+  }
 
   try {
     const updatedStrategy = await prisma.strategy.update({
@@ -164,8 +165,12 @@ export const updateStrategy = async (req: Request, res: Response, next: NextFunc
         name,
         description,
         isActive,
+        // A new firing mode replaces the whole setting, clearing a previous cooldown
+        ...(firingMode && { firingMode, cooldownMinutes: cooldownMinutes ?? null, cooldownBars: cooldownBars ?? null }),
       },
     });
+    // Activating/deactivating adds or removes the strategy's indicators from the scheduler right away
+    await publishStrategyChange({ strategyId, change: 'STRATEGY_UPDATED', isActive: updatedStrategy.isActive });
     res.status(200).json(updatedStrategy);
   } catch (error) {
      // Handle specific Prisma error for record not found
@@ -185,6 +190,7 @@ export const deleteStrategy = async (req: Request, res: Response, next: NextFunc
     await prisma.strategy.delete({
       where: { id: strategyId },
     });
+    await publishStrategyChange({ strategyId, change: 'STRATEGY_DELETED', isActive: false });
     res.status(200).json({ message: `Strategy with ID ${strategyId} has been deleted` });
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
@@ -0,0 +1,102 @@
+// src/controllers/strategyAPI/strategyRunController.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../../utils/prisma/prisma';
+import { evaluateStrategy } from '../evaluationService/evaluator';
+
+const DEFAULT_RUN_LIMIT = 50;
+const MAX_RUN_LIMIT = 200;
+
+// Lists a strategy's evaluation runs, newest first. Supports ?limit=N and ?before=<ISO date> for paging.
+export const getStrategyRuns = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { strategyId } = req.params;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_RUN_LIMIT;
+    const before = req.query.before !== undefined ? new Date(req.query.before as string) : undefined;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RUN_LIMIT) {
+        res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_RUN_LIMIT}` });
+        return;
+    }
+    if (before && isNaN(before.getTime())) {
+        res.status(400).json({ error: 'before must be a valid date' });
+        return;
+    }
+
+    try {
+        const strategy = await prisma.strategy.findUnique({ where: { id: strategyId }, select: { id: true } });
+        if (!strategy) {
+            res.status(404).json({ error: `Strategy with ID ${strategyId} not found` });
+            return;
+        }
+
+        const runs = await prisma.strategyRun.findMany({
+            where: { strategyId, ...(before && { startedAt: { lt: before } }) },
+            orderBy: { startedAt: 'desc' },
+            take: limit,
+            include: {
+                conditionResults: { orderBy: { order: 'asc' } },
+                actionDispatches: { orderBy: { order: 'asc' } },
+            },
+        });
+        res.status(200).json(runs);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const getStrategyRunById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { strategyId, runId } = req.params;
+
+    try {
+        const run = await prisma.strategyRun.findFirst({
+            where: { id: runId, strategyId },
+            include: {
+                conditionResults: { orderBy: { order: 'asc' } },
+                actionDispatches: { orderBy: { order: 'asc' } },
+            },
+        });
+
+        if (!run) {
+            res.status(404).json({ error: `Run with ID ${runId} not found for strategy ${strategyId}` });
+            return;
+        }
+        res.status(200).json(run);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Explains a strategy: evaluates it now against the cached indicator data and returns the block-by-block trace
+ * and the actions it would publish. Always a dry run, nothing is published to the action stream and no run is
+ * recorded; live actions only come from indicator updates, which carry the bar they fire for.
+ */
+export const evaluateStrategyNow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { strategyId } = req.params;
+    const dryRunParam = req.query.dryRun;
+
+    if (dryRunParam !== undefined && dryRunParam !== 'true') {
+        res.status(400).json({ error: 'Only dry runs are supported (dryRun=true); strategies act on indicator updates' });
+        return;
+    }
+
+    try {
+        const strategy = await prisma.strategy.findUnique({ where: { id: strategyId }, select: { id: true } });
+        if (!strategy) {
+            res.status(404).json({ error: `Strategy with ID ${strategyId} not found` });
+            return;
+        }
+
+        const result = await evaluateStrategy(
+            strategyId,
+            { source: 'dryRun', requestedAt: new Date().toISOString() },
+            { dryRun: true }
+        );
+        if (!result) {
+            res.status(422).json({ error: `Strategy ${strategyId} has no ROOT block to evaluate` });
+            return;
+        }
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
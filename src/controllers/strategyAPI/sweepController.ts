@@ -0,0 +1,161 @@
+// src/controllers/strategyAPI/sweepController.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../../utils/prisma/prisma';
+import { backtestQueue } from '../../utils/redisClient';
+import { validateBacktestOptions } from './backtestController';
+import {
+    ParameterRange, SweepRequest, SWEEP_METRICS, MAX_SWEEP_COMBINATIONS, countCombinations, rangeSize
+} from '../backtestService/sweep';
+
+const SWEEP_JOB_NAME = 'sweep';
+const SWEEP_RESULT_TTL_SECONDS = 7 * 86400;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Checks the ranges against the strategy's conditions, returning an error message or null
+const validateRanges = (ranges: unknown, conditionIds: Set<string>): string | null => {
+    if (!Array.isArray(ranges) || ranges.length === 0) {
+        return 'ranges must be a non-empty array';
+    }
+    const seen = new Set<string>();
+    for (const range of ranges as ParameterRange[]) {
+        if (!range || typeof range.conditionId !== 'string' || !conditionIds.has(range.conditionId)) {
+            return `ranges: conditionId ${range?.conditionId} is not a condition of this strategy`;
+        }
+        if (range.field !== 'targetValue' && !/^parameters\.\w+$/.test(range.field ?? '')) {
+            return `ranges: field must be 'targetValue' or 'parameters.<name>' (got '${range.field}')`;
+        }
+        const key = `${range.conditionId}.${range.field}`;
+        if (seen.has(key)) {
+            return `ranges: ${key} is declared twice`;
+        }
+        seen.add(key);
+
+        if (range.values !== undefined) {
+            if (!Array.isArray(range.values) || range.values.length === 0) {
+                return `ranges: values of ${key} must be a non-empty array of numbers`;
+            }
+            if (range.values.length > MAX_SWEEP_COMBINATIONS) {
+                return `ranges: ${key} lists ${range.values.length} values, at most ${MAX_SWEEP_COMBINATIONS} are allowed`;
+            }
+            if (!range.values.every(isFiniteNumber)) {
+                return `ranges: values of ${key} must be a non-empty array of numbers`;
+            }
+        } else if (!isFiniteNumber(range.min) || !isFiniteNumber(range.max) || !isFiniteNumber(range.step)
+                   || range.step <= 0 || range.min > range.max) {
+            return `ranges: ${key} needs either values or min <= max with a positive step`;
+        } else if (rangeSize(range) > MAX_SWEEP_COMBINATIONS) {
+            // Sized arithmetically, a tiny step over a wide range must never be expanded
+            return `ranges: ${key} spans ${rangeSize(range)} values, at most ${MAX_SWEEP_COMBINATIONS} are allowed`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Queues a parameter sweep (grid or walk-forward) as a background job.
+ * Body: backtest options plus { ranges, rankBy?, walkForward?: { folds, trainRatio? } }
+ * Responds 202 with the job id to poll.
+ */
+export const startSweep = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { strategyId } = req.params;
+    const { ranges, rankBy, walkForward } = req.body ?? {};
+
+    const validationError = validateBacktestOptions(req.body);
+    if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+    }
+    if (rankBy !== undefined && !SWEEP_METRICS.includes(rankBy)) {
+        res.status(400).json({ error: `rankBy must be one of: ${SWEEP_METRICS.join(', ')}` });
+        return;
+    }
+    if (walkForward !== undefined) {
+        const { folds, trainRatio } = walkForward ?? {};
+        if (!Number.isInteger(folds) || folds < 1 || folds > 20) {
+            res.status(400).json({ error: 'walkForward.folds must be an integer between 1 and 20' });
+            return;
+        }
+        if (trainRatio !== undefined && (!isFiniteNumber(trainRatio) || trainRatio <= 0 || trainRatio >= 1)) {
+            res.status(400).json({ error: 'walkForward.trainRatio must be between 0 and 1' });
+            return;
+        }
+    }
+
+    try {
+        const strategy = await prisma.strategy.findUnique({ where: { id: strategyId }, select: { id: true } });
+        if (!strategy) {
+            res.status(404).json({ error: `Strategy with ID ${strategyId} not found` });
+            return;
+        }
+
+        // Conditions linked to the strategy's blocks and the indicators they compare against
+        const blocks = await prisma.strategyBlock.findMany({
+            where: { strategyId, conditionId: { not: null } },
+            select: { condition: { select: { id: true, targetIndicatorId: true } } },
+        });
+        const conditionIds = new Set<string>();
+        for (const { condition } of blocks) {
+            if (!condition) continue;
+            conditionIds.add(condition.id);
+            if (condition.targetIndicatorId) conditionIds.add(condition.targetIndicatorId);
+        }
+
+        const rangesError = validateRanges(ranges, conditionIds);
+        if (rangesError) {
+            res.status(400).json({ error: rangesError });
+            return;
+        }
+        const combinations = countCombinations(ranges);
+        if (combinations > MAX_SWEEP_COMBINATIONS) {
+            res.status(400).json({ error: `Sweep has ${combinations} combinations, the maximum is ${MAX_SWEEP_COMBINATIONS}` });
+            return;
+        }
+
+        const sweepRequest: SweepRequest = {
+            strategyId,
+            start: req.body.start,
+            end: req.body.end,
+            initialCapital: req.body.initialCapital,
+            interval: req.body.interval,
+            warmupBars: req.body.warmupBars,
+            ranges,
+            rankBy,
+            walkForward,
+        };
+        const job = await backtestQueue.add(SWEEP_JOB_NAME, sweepRequest, {
+            removeOnComplete: { age: SWEEP_RESULT_TTL_SECONDS },
+            removeOnFail: { age: SWEEP_RESULT_TTL_SECONDS },
+        });
+
+        res.status(202).json({ jobId: job.id, combinations });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Reports a sweep job's state and progress, with the ranked results once it has completed
+export const getSweep = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { strategyId, jobId } = req.params;
+
+    try {
+        const job = await backtestQueue.getJob(jobId);
+        if (!job || job.name !== SWEEP_JOB_NAME || job.data?.strategyId !== strategyId) {
+            res.status(404).json({ error: `Sweep job ${jobId} not found for strategy ${strategyId}` });
+            return;
+        }
+
+        const state = await job.getState();
+        res.status(200).json({
+            jobId: job.id,
+            state,
+            progress: job.progress,
+            createdAt: new Date(job.timestamp).toISOString(),
+            finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+            result: state === 'completed' ? job.returnvalue : null,
+            error: state === 'failed' ? job.failedReason : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
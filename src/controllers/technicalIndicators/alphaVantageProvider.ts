@@ -0,0 +1,73 @@
+// src/controllers/technicalIndicators/alphaVantageProvider.ts
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { TechnicalIndicator } from './technicalIndicators';
+import { IndicatorProvider, ProviderResult, ProviderFetchOptions } from './indicatorProviders';
+import {
+    acquireAlphaVantageSlot, alphaVantageRateLimitNote, coalesceAlphaVantageRequest, markAlphaVantageQuotaExhausted
+} from './alphaVantageRateLimiter';
+
+dotenv.config();
+
+const apikey = process.env.ALPHA_VANTAGE_API_KEY;
+const alphaVantageBaseUrl = 'https://www.alphavantage.co/query';
+
+// One Alpha Vantage call; throws on API errors and rate limiting
+const callAlphaVantage = async (apiParams: Record<string, any>): Promise<ProviderResult> => {
+    const { function: func, symbol, interval } = apiParams;
+    const response = await axios.get(alphaVantageBaseUrl, {
+        params: { ...apiParams, apikey },
+    });
+
+    const data = response.data;
+
+    // Basic validation
+    if (!data || typeof data !== 'object' || data["Error Message"] || !data['Meta Data']) {
+         console.error('Invalid data received from Alpha Vantage:', data);
+         // Check for rate limit message, pausing every process's calls until the quota resets
+         const note = alphaVantageRateLimitNote(data);
+         if (note) {
+            console.warn(`Rate limit hit for ${func} ${symbol} ${interval}. Data not cached.`);
+            await markAlphaVantageQuotaExhausted(note);
+         }
+         throw new Error(`Invalid or error data received from Alpha Vantage for ${func} ${symbol} ${interval}.`);
+    }
+
+    const metadata = data['Meta Data'] || {};
+    const actualIndicatorData = Object.values(data).find(val => typeof val === 'object' && val !== null && !val.hasOwnProperty('1: Symbol')); // Find the actual data part
+
+    if (!actualIndicatorData) {
+         console.error('Could not extract actual indicator data from response:', data);
+         throw new Error(`Could not extract actual indicator data for ${func} ${symbol} ${interval}.`);
+    }
+
+    const lastRefreshedAV = metadata['3: Last Refreshed']; // Get AV's last refreshed time
+    return {
+        data: actualIndicatorData as Record<string, Record<string, string>>,
+        metadata: { ...metadata, alphaVantageLastRefreshed: lastRefreshedAV },
+        lastRefreshed: lastRefreshedAV,
+    };
+};
+
+// One Alpha Vantage technical indicator call within the shared quota; throws on API errors and rate limiting
+const fetchAlphaVantageIndicator = async (params: TechnicalIndicator, options: ProviderFetchOptions = {}): Promise<ProviderResult> => {
+    const { function: func, symbol, interval, parameters } = params;
+    const apiParams = {
+        function: func ?? params.indicatorType,
+        symbol,
+        interval,
+        ...parameters
+    };
+    // Conditions reading different series of one indicator (MACD signal and histogram) make the same call
+    const requestKey = JSON.stringify(Object.entries(apiParams).sort(([a], [b]) => a.localeCompare(b)));
+    return coalesceAlphaVantageRequest(requestKey, async () => {
+        await acquireAlphaVantageSlot(options.priority);
+        return callAlphaVantage(apiParams);
+    });
+};
+
+export const alphaVantageProvider: IndicatorProvider = {
+    name: 'ALPHA_VANTAGE',
+    supports: () => true, // Whatever Alpha Vantage does not know is reported by the API itself
+    fetchIndicator: fetchAlphaVantageIndicator,
+};
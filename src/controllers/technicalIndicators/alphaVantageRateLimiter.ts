@@ -0,0 +1,247 @@
+// src/controllers/technicalIndicators/alphaVantageRateLimiter.ts
+/**
+ * Alpha Vantage quota shared by every process:
+ *  - A Redis token bucket (ALPHA_VANTAGE_REQUESTS_PER_MINUTE, default 5) plus a per-day counter
+ *    (ALPHA_VANTAGE_REQUESTS_PER_DAY, default 25, 0 for no daily limit), updated atomically by one Lua script.
+ *  - Requests waiting for a token are served by priority: 'live' (scheduled fetches of active strategies)
+ *    before 'adhoc' (direct getTechnicalIndicator calls), oldest first. The order holds within a process;
+ *    across processes the bucket alone decides.
+ *  - Identical concurrent requests in a process share one call.
+ *  - When Alpha Vantage itself reports its limit, calls stop until the window resets instead of burning
+ *    the remaining quota, and the state is reported by getAlphaVantageQuotaStatus (GET /api/indicators/quota).
+ */
+import { getRedisClient } from '../../utils/redisClient';
+
+export type FetchPriority = 'live' | 'adhoc';
+
+export class AlphaVantageQuotaError extends Error {}
+
+const BUCKET_KEY = 'alphaVantage:quota:bucket';
+const DAY_KEY_PREFIX = 'alphaVantage:quota:day:';
+const EXHAUSTED_KEY = 'alphaVantage:quota:exhausted';
+
+const PRIORITY_ORDER: FetchPriority[] = ['live', 'adhoc'];
+const MIN_POLL_MS = 50;
+const PER_MINUTE_BACKOFF_MS = 60 * 1000;
+
+const readLimit = (name: string, fallback: number): number => {
+    const value = parseInt(process.env[name] ?? '', 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const getLimits = () => ({
+    perMinute: Math.max(1, readLimit('ALPHA_VANTAGE_REQUESTS_PER_MINUTE', 5)),
+    perDay: readLimit('ALPHA_VANTAGE_REQUESTS_PER_DAY', 25),
+    maxWaitMs: readLimit('ALPHA_VANTAGE_MAX_WAIT_MS', 2 * 60 * 1000), // Longest a request queues for a token
+});
+
+const dayKey = (at: Date = new Date()) => `${DAY_KEY_PREFIX}${at.toISOString().slice(0, 10)}`;
+
+/**
+ * Takes one token. Returns 0 when taken, the milliseconds until the next token otherwise,
+ * or -1 when the daily quota is used up. Uses the Redis clock so every process agrees on refills.
+ */
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = capacity / 60000
+local perDay = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+if perDay > 0 and (tonumber(redis.call('GET', KEYS[2])) or 0) >= perDay then
+    return -1
+end
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs)
+
+local waitMs = 0
+if tokens >= 1 then
+    tokens = tokens - 1
+    redis.call('INCR', KEYS[2])
+    redis.call('EXPIRE', KEYS[2], 172800)
+else
+    waitMs = math.ceil((1 - tokens) / refillPerMs)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], 120000)
+return waitMs
+`;
+
+const takeToken = async (): Promise<number> => {
+    const { perMinute, perDay } = getLimits();
+    const result = await getRedisClient().eval(TAKE_TOKEN_SCRIPT, {
+        keys: [BUCKET_KEY, dayKey()],
+        arguments: [String(perMinute), String(perDay)],
+    });
+    return Number(result);
+};
+
+// Reason Alpha Vantage calls are paused, null when they are not
+const getExhaustion = async (): Promise<{ reason: string; until: string } | null> => {
+    const raw = await getRedisClient().get(EXHAUSTED_KEY);
+    return raw ? JSON.parse(raw) : null;
+};
+
+// Alpha Vantage reports rate limiting as a 200 with a note instead of data; returns the note, null otherwise
+export const alphaVantageRateLimitNote = (data: any): string | null => {
+    const note = typeof data === 'object' && data !== null ? (data["Note"] || data["Information"]) : null;
+    return typeof note === 'string' && /API call frequency|rate limit/i.test(note) ? note : null;
+};
+
+const nextUtcMidnight = (): Date => {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+};
+
+/**
+ * Pauses Alpha Vantage calls after the API reported its limit: until the next UTC day when the note is about
+ * the daily quota (or the local daily counter is used up), for a minute otherwise.
+ */
+export const markAlphaVantageQuotaExhausted = async (reason: string): Promise<void> => {
+    const daily = /per day|daily/i.test(reason);
+    const until = daily ? nextUtcMidnight() : new Date(Date.now() + PER_MINUTE_BACKOFF_MS);
+    await getRedisClient().set(EXHAUSTED_KEY, JSON.stringify({ reason, until: until.toISOString() }), {
+        PX: Math.max(1000, until.getTime() - Date.now()),
+    });
+    console.warn(`Alpha Vantage quota exhausted until ${until.toISOString()}: ${reason}`);
+};
+
+interface Waiter {
+    priority: FetchPriority;
+    enqueuedAt: number;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+// Requests of this process waiting for a token
+const waiting: Record<FetchPriority, Waiter[]> = { live: [], adhoc: [] };
+let draining = false;
+
+const nextWaiter = (): Waiter | undefined => {
+    for (const priority of PRIORITY_ORDER) {
+        if (waiting[priority].length > 0) return waiting[priority][0];
+    }
+    return undefined;
+};
+
+const removeWaiter = (waiter: Waiter) => {
+    const queue = waiting[waiter.priority];
+    queue.splice(queue.indexOf(waiter), 1);
+};
+
+const rejectAll = (error: Error) => {
+    for (const priority of PRIORITY_ORDER) {
+        waiting[priority].splice(0).forEach(waiter => waiter.reject(error));
+    }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Hands out tokens to the waiting requests, highest priority first, one at a time
+const drain = async () => {
+    if (draining) return;
+    draining = true;
+    try {
+        let waiter: Waiter | undefined;
+        while ((waiter = nextWaiter())) {
+            const { maxWaitMs } = getLimits();
+            if (Date.now() - waiter.enqueuedAt > maxWaitMs) {
+                removeWaiter(waiter);
+                waiter.reject(new AlphaVantageQuotaError(`No Alpha Vantage request slot within ${maxWaitMs} ms`));
+                continue;
+            }
+
+            const exhaustion = await getExhaustion();
+            if (exhaustion) {
+                rejectAll(new AlphaVantageQuotaError(`Alpha Vantage quota exhausted until ${exhaustion.until}: ${exhaustion.reason}`));
+                break;
+            }
+
+            const waitMs = await takeToken();
+            if (waitMs === 0) {
+                removeWaiter(waiter);
+                waiter.resolve();
+            } else if (waitMs < 0) {
+                await markAlphaVantageQuotaExhausted(`Daily limit of ${getLimits().perDay} requests per day reached`);
+                rejectAll(new AlphaVantageQuotaError('Alpha Vantage daily quota exhausted'));
+                break;
+            } else {
+                await sleep(Math.max(MIN_POLL_MS, waitMs));
+            }
+        }
+    } catch (error: any) {
+        // Redis unavailable: fail the waiting requests rather than calling the API unthrottled
+        rejectAll(new AlphaVantageQuotaError(`Alpha Vantage rate limiter unavailable: ${error.message}`));
+    } finally {
+        draining = false;
+    }
+};
+
+// Resolves once this request may call Alpha Vantage; rejects with AlphaVantageQuotaError when it may not
+export const acquireAlphaVantageSlot = (priority: FetchPriority = 'adhoc'): Promise<void> => {
+    const slot = new Promise<void>((resolve, reject) => {
+        waiting[priority].push({ priority, enqueuedAt: Date.now(), resolve, reject });
+    });
+    drain();
+    return slot;
+};
+
+// In-flight Alpha Vantage calls, keyed by request
+const inFlight = new Map<string, Promise<any>>();
+
+// Runs 'call' unless an identical request is already in flight, in which case its result is shared
+export const coalesceAlphaVantageRequest = <T>(requestKey: string, call: () => Promise<T>): Promise<T> => {
+    const existing = inFlight.get(requestKey);
+    if (existing) {
+        console.log(`Joining in-flight Alpha Vantage request ${requestKey}`);
+        return existing;
+    }
+    const request = call().finally(() => inFlight.delete(requestKey));
+    inFlight.set(requestKey, request);
+    return request;
+};
+
+export interface AlphaVantageQuotaStatus {
+    limits: { perMinute: number; perDay: number };
+    usedToday: number;
+    remainingToday: number | null; // null without a daily limit
+    availableTokens: number;
+    exhausted: boolean;
+    exhaustedReason: string | null;
+    exhaustedUntil: string | null;
+    waiting: Record<FetchPriority, number>; // This process only
+    inFlight: number; // This process only
+}
+
+export const getAlphaVantageQuotaStatus = async (): Promise<AlphaVantageQuotaStatus> => {
+    const { perMinute, perDay } = getLimits();
+    const redisClient = getRedisClient();
+    const [usedRaw, bucket, exhaustion] = await Promise.all([
+        redisClient.get(dayKey()),
+        redisClient.hGetAll(BUCKET_KEY),
+        getExhaustion(),
+    ]);
+    const usedToday = parseInt(usedRaw ?? '0', 10) || 0;
+
+    // Tokens as of now, refilled the same way the script does
+    let availableTokens = perMinute;
+    if (bucket.tokens !== undefined && bucket.updatedAt !== undefined) {
+        const elapsedMs = Math.max(0, Date.now() - Number(bucket.updatedAt));
+        availableTokens = Math.min(perMinute, Number(bucket.tokens) + elapsedMs * perMinute / 60000);
+    }
+
+    return {
+        limits: { perMinute, perDay },
+        usedToday,
+        remainingToday: perDay > 0 ? Math.max(0, perDay - usedToday) : null,
+        availableTokens: Math.floor(availableTokens),
+        exhausted: exhaustion !== null,
+        exhaustedReason: exhaustion?.reason ?? null,
+        exhaustedUntil: exhaustion?.until ?? null,
+        waiting: { live: waiting.live.length, adhoc: waiting.adhoc.length },
+        inFlight: inFlight.size,
+    };
+};
@@ -9,7 +9,7 @@ export const generateCacheKey = (params: Record<string, any>): string => {
         interval: params.interval,
         parameters: params.parameters,
         dataSource: params.dataSource, // Add if relevant
-        // dataKey: params.dataKey      // Add if relevant
+        // dataKey is left out: every series of a multi-output indicator comes from the same response
     };
     const sortedKeys = Object.keys(keyParams).sort();
     // ... rest of the key generation logic ...
@@ -25,6 +25,21 @@ export const generateCacheKey = (params: Record<string, any>): string => {
     return `indicator:${entries}`;
 };
 
+// How long fetched/computed indicator data stays cached, slightly longer than one refresh of its interval
+export const getIndicatorTtlSeconds = (interval: string): number => {
+  switch (interval) {
+    case '1min': return 60 * 5;
+    case '5min': return 300 * 2;
+    case '15min': return 900 * 2;
+    case '30min': return 1800 * 2;
+    case '60min': return 3600 * 2;
+    case 'daily': return 86400 + 3600;
+    case 'weekly': return 86400 * 7 + 3600;
+    case 'monthly': return 86400 * 30 + 3600;
+    default: return 86400; // default: 24 hours
+  }
+};
+
 // Store both data and metadata (like lastRefreshed timestamp)
 export const setCachedIndicatorData = async (
   key: string,
@@ -0,0 +1,103 @@
+// src/controllers/technicalIndicators/fixtureProvider.ts
+/**
+ * Reads indicator data from local files so the scheduler -> evaluator -> action pipeline can run offline.
+ * Files live in INDICATOR_FIXTURE_DIR (default ./fixtures); crypto symbols use '-' instead of '/' (BTC-USD).
+ *  - <SYMBOL>_<interval>_<INDICATOR>.json: precomputed Alpha Vantage-shaped data, used as is.
+ *  - <SYMBOL>_<interval>.csv: bars with a timestamp,open,high,low,close,volume header; indicators are computed locally.
+ *  - <SYMBOL>_<interval>.json: the same bars as an array of Alpaca bars ({ t, o, h, l, c, v }).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { AlpacaBar } from '../../services/marketDataService';
+import { computeLocalIndicator, IndicatorData } from './localIndicators';
+import { TechnicalIndicator } from './technicalIndicators';
+import { IndicatorProvider, ProviderResult } from './indicatorProviders';
+
+const fixtureDir = () => process.env.INDICATOR_FIXTURE_DIR || path.resolve(process.cwd(), 'fixtures');
+
+const fileSymbol = (symbol: string) => symbol.replace('/', '-');
+
+const readIfExists = async (file: string): Promise<string | null> => {
+    try {
+        return await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+};
+
+// Column names accepted for each bar field, matched case-insensitively
+const CSV_COLUMNS: Record<keyof Pick<AlpacaBar, 't' | 'o' | 'h' | 'l' | 'c' | 'v'>, string[]> = {
+    t: ['timestamp', 'time', 'date', 't'],
+    o: ['open', 'o'],
+    h: ['high', 'h'],
+    l: ['low', 'l'],
+    c: ['close', 'c'],
+    v: ['volume', 'v'],
+};
+
+const parseCsvBars = (csv: string, file: string): AlpacaBar[] => {
+    const [headerLine, ...lines] = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+    const header = headerLine.split(',').map(column => column.trim().toLowerCase());
+    const index = {} as Record<keyof typeof CSV_COLUMNS, number>;
+    for (const [field, names] of Object.entries(CSV_COLUMNS) as [keyof typeof CSV_COLUMNS, string[]][]) {
+        index[field] = header.findIndex(column => names.includes(column));
+        if (index[field] === -1 && field !== 'v') {
+            throw new Error(`Fixture ${file} has no ${names[0]} column`);
+        }
+    }
+
+    return lines.map(line => {
+        const cells = line.split(',').map(cell => cell.trim());
+        return {
+            t: new Date(cells[index.t]).toISOString(),
+            o: parseFloat(cells[index.o]),
+            h: parseFloat(cells[index.h]),
+            l: parseFloat(cells[index.l]),
+            c: parseFloat(cells[index.c]),
+            v: index.v === -1 ? 0 : parseFloat(cells[index.v]),
+        };
+    });
+};
+
+// Bars for a symbol/interval from the CSV or JSON fixture, oldest first; null when neither exists
+const loadFixtureBars = async (symbol: string, interval: string): Promise<AlpacaBar[] | null> => {
+    const base = path.join(fixtureDir(), `${fileSymbol(symbol)}_${interval}`);
+
+    let bars: AlpacaBar[] | null = null;
+    const csv = await readIfExists(`${base}.csv`);
+    if (csv !== null) {
+        bars = parseCsvBars(csv, `${base}.csv`);
+    } else {
+        const json = await readIfExists(`${base}.json`);
+        if (json !== null) bars = JSON.parse(json) as AlpacaBar[];
+    }
+    return bars ? [...bars].sort((a, b) => Date.parse(a.t) - Date.parse(b.t)) : null;
+};
+
+const readFixtureIndicator = async (params: TechnicalIndicator): Promise<ProviderResult> => {
+    const indicatorType = params.indicatorType ?? params.function;
+    const precomputedFile = path.join(fixtureDir(), `${fileSymbol(params.symbol)}_${params.interval}_${indicatorType}.json`);
+
+    const precomputed = await readIfExists(precomputedFile);
+    let data: IndicatorData;
+    if (precomputed !== null) {
+        data = JSON.parse(precomputed);
+    } else {
+        const bars = await loadFixtureBars(params.symbol, params.interval);
+        if (!bars || bars.length === 0) {
+            throw new Error(`No fixture for ${indicatorType} ${params.symbol} ${params.interval} in ${fixtureDir()}`);
+        }
+        data = computeLocalIndicator(indicatorType, params.parameters ?? {}, bars);
+    }
+
+    const timestamps = Object.keys(data).sort();
+    const lastRefreshed = timestamps[timestamps.length - 1];
+    return { data, metadata: { lastRefreshed, fixtureDir: fixtureDir() }, lastRefreshed };
+};
+
+export const fixtureProvider: IndicatorProvider = {
+    name: 'FIXTURE',
+    supports: () => true, // Precomputed files can hold any indicator; bar files are limited to the local engine
+    fetchIndicator: readFixtureIndicator,
+};
@@ -0,0 +1,55 @@
+// src/controllers/technicalIndicators/indicatorEngine.ts
+/**
+ * Local indicator engine: fetches OHLCV bars from Alpaca once per symbol/interval and computes every
+ * requested indicator from them, instead of one Alpha Vantage call per (function, symbol, interval, params).
+ * Exposed as the ALPACA indicator provider, so results are cached and published like any other provider's.
+ */
+import { AlpacaBar, fetchRecentBars } from '../../services/marketDataService';
+import { computeLocalIndicator, isLocalIndicatorType } from './localIndicators';
+import { TechnicalIndicator } from './technicalIndicators';
+import { IndicatorProvider, ProviderResult } from './indicatorProviders';
+
+const ENGINE_HISTORY_BARS = 500; // Enough to warm up the longest default periods (MACD 26+9, ADX 2x period)
+const BAR_REUSE_MS = 20 * 1000; // Indicators on the same symbol/interval scheduled together share one fetch
+
+interface BarFetch {
+    bars: Promise<AlpacaBar[]>;
+    fetchedAt: number;
+}
+
+// In-flight and recently completed bar fetches, keyed by symbol|interval
+const barFetches = new Map<string, BarFetch>();
+
+// Coalesces concurrent requests for the same bars and reuses a fetch for a few seconds
+const getBars = (symbol: string, interval: string): Promise<AlpacaBar[]> => {
+    const key = `${symbol}|${interval}`;
+    const existing = barFetches.get(key);
+    if (existing && Date.now() - existing.fetchedAt < BAR_REUSE_MS) {
+        return existing.bars;
+    }
+
+    const bars = fetchRecentBars(symbol, interval, ENGINE_HISTORY_BARS);
+    barFetches.set(key, { bars, fetchedAt: Date.now() });
+    // A failed fetch must not be reused
+    bars.catch(() => barFetches.delete(key));
+    return bars;
+};
+
+const computeFromAlpacaBars = async (params: TechnicalIndicator): Promise<ProviderResult> => {
+    const bars = await getBars(params.symbol, params.interval);
+    if (bars.length === 0) {
+        throw new Error(`No ${params.interval} bars returned for ${params.symbol}`);
+    }
+    const lastRefreshed = bars[bars.length - 1].t;
+    return {
+        data: computeLocalIndicator(params.indicatorType ?? params.function, params.parameters ?? {}, bars),
+        metadata: { lastRefreshed, barCount: bars.length },
+        lastRefreshed,
+    };
+};
+
+export const alpacaBarsProvider: IndicatorProvider = {
+    name: 'ALPACA',
+    supports: isLocalIndicatorType,
+    fetchIndicator: computeFromAlpacaBars,
+};
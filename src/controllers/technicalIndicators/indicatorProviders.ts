@@ -0,0 +1,121 @@
+// src/controllers/technicalIndicators/indicatorProviders.ts
+/**
+ * Market data providers for technical indicators, chosen per condition by Condition.dataSource:
+ *  - ALPHA_VANTAGE: one Alpha Vantage call per indicator.
+ *  - ALPACA: computed locally from Alpaca bars (see indicatorEngine); market quantities such as PRICE
+ *    come from Alpaca snapshots (see snapshotProvider).
+ *  - FIXTURE: read from local files (see fixtureProvider), for offline runs and tests.
+ * Conditions without a dataSource use ALPACA for the indicators it can compute and Alpha Vantage otherwise.
+ * Market quantities are only available from ALPACA snapshots (or FIXTURE files).
+ * INDICATOR_DATA_SOURCE_OVERRIDE forces one provider for every condition (e.g. FIXTURE for an offline pipeline).
+ *
+ * Whatever the provider, refreshIndicator caches the data with setCachedIndicatorData under the condition's
+ * cache key and publishes an indicator update, so the evaluator does not depend on where the data came from.
+ */
+import { generateCacheKey, setCachedIndicatorData, getCachedIndicatorEntry, getIndicatorTtlSeconds } from './cache';
+import { TechnicalIndicator } from './technicalIndicators';
+import { IndicatorData } from './localIndicators';
+import { alphaVantageProvider } from './alphaVantageProvider';
+import { alpacaBarsProvider } from './indicatorEngine';
+import { fixtureProvider } from './fixtureProvider';
+import { alpacaSnapshotProvider, isMarketQuantityType } from './snapshotProvider';
+import { initRedis } from '../../utils/redisClient';
+import { publishIndicatorUpdate } from '../scheduler/redisStream';
+import { FetchPriority } from './alphaVantageRateLimiter';
+
+export const INDICATOR_DATA_SOURCES = ['ALPHA_VANTAGE', 'ALPACA', 'FIXTURE'] as const;
+export type IndicatorDataSourceName = typeof INDICATOR_DATA_SOURCES[number];
+
+export interface ProviderResult {
+    data: IndicatorData; // Alpha Vantage-shaped: { [timestamp]: { [key]: "value" } }
+    metadata: Record<string, any>;
+    lastRefreshed?: string; // Timestamp of the latest data point
+}
+
+export interface ProviderFetchOptions {
+    priority?: FetchPriority; // Order among requests waiting for a rate-limited API (Alpha Vantage)
+}
+
+export interface IndicatorProvider {
+    name: IndicatorDataSourceName;
+    supports: (indicatorType: string) => boolean;
+    fetchIndicator: (params: TechnicalIndicator, options?: ProviderFetchOptions) => Promise<ProviderResult>; // Throws when no data can be produced
+}
+
+const providers: Record<IndicatorDataSourceName, IndicatorProvider> = {
+    ALPHA_VANTAGE: alphaVantageProvider,
+    ALPACA: alpacaBarsProvider,
+    FIXTURE: fixtureProvider,
+};
+
+export const isIndicatorDataSource = (value: unknown): value is IndicatorDataSourceName =>
+    typeof value === 'string' && (INDICATOR_DATA_SOURCES as readonly string[]).includes(value);
+
+// Provider for a condition's dataSource (case-insensitive); throws for unknown sources
+export const resolveIndicatorProvider = (dataSource: string | null | undefined, indicatorType: string): IndicatorProvider => {
+    const requested = (process.env.INDICATOR_DATA_SOURCE_OVERRIDE || dataSource)?.toUpperCase();
+    if (isMarketQuantityType(indicatorType) && requested !== 'FIXTURE') {
+        return alpacaSnapshotProvider;
+    }
+    if (requested) {
+        if (!isIndicatorDataSource(requested)) {
+            throw new Error(`Unknown indicator data source '${requested}'`);
+        }
+        return providers[requested];
+    }
+    return alpacaBarsProvider.supports(indicatorType) ? alpacaBarsProvider : alphaVantageProvider;
+};
+
+/**
+ * Returns the indicator data (from the cache unless forceRefresh), fetching it from the condition's provider,
+ * caching it and publishing an update when it is fetched. Returns null when the provider fails.
+ * 'dataSource' overrides params.dataSource (getTechnicalIndicator always asks Alpha Vantage).
+ * 'priority' is 'live' for the scheduled fetches of active strategies, 'adhoc' for everything else.
+ */
+export const refreshIndicator = async (
+    params: TechnicalIndicator,
+    forceRefresh: boolean = false,
+    dataSource?: IndicatorDataSourceName,
+    priority: FetchPriority = 'adhoc'
+): Promise<any> => {
+    await initRedis(); // Ensure Redis is ready
+    const cacheKey = generateCacheKey(params);
+    const indicatorType = params.indicatorType ?? params.function;
+
+    if (!forceRefresh) {
+        const cachedEntry = await getCachedIndicatorEntry<any>(cacheKey);
+        if (cachedEntry) {
+            return cachedEntry.data;
+        }
+    }
+
+    try {
+        const provider = resolveIndicatorProvider(dataSource ?? params.dataSource, indicatorType);
+        console.log(`Fetching fresh data for ${cacheKey} from ${provider.name}`);
+        const result = await provider.fetchIndicator(params, { priority });
+
+        await setCachedIndicatorData(cacheKey, result.data, {
+            ...result.metadata,
+            source: provider.name,
+            lastRefreshed: result.lastRefreshed,
+        }, getIndicatorTtlSeconds(params.interval));
+
+        // Publish an event indicating the data has been updated
+        await publishIndicatorUpdate({
+            cacheKey,
+            indicatorType,
+            symbol: params.symbol,
+            interval: params.interval,
+            parameters: params.parameters ?? {}, // Only the indicator parameters, the evaluator matches them against Condition.parameters
+            dataSource: params.dataSource ?? undefined,
+            lastRefreshed: result.lastRefreshed,
+            fetchTime: new Date().toISOString(),
+        });
+
+        return result.data;
+    } catch (error: any) {
+        console.error(`Error fetching Technical Indicator data for key ${cacheKey}:`, error.response?.data || error.message);
+        // Let the scheduler handle retry logic based on the error
+        return null;
+    }
+};
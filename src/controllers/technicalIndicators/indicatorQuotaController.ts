@@ -0,0 +1,15 @@
+// src/controllers/technicalIndicators/indicatorQuotaController.ts
+import { Request, Response, NextFunction } from 'express';
+import { initRedis } from '../../utils/redisClient';
+import { getAlphaVantageQuotaStatus } from './alphaVantageRateLimiter';
+
+// Alpha Vantage quota usage; 'exhausted' is true while calls are paused after hitting the limit
+export const getIndicatorQuota = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await initRedis();
+        const alphaVantage = await getAlphaVantageQuotaStatus();
+        res.status(200).json({ alphaVantage });
+    } catch (error) {
+        next(error);
+    }
+};
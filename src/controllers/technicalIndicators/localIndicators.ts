@@ -0,0 +1,170 @@
+// src/controllers/technicalIndicators/localIndicators.ts
+/**
+ * Computes technical indicators locally from OHLCV bars with the technicalindicators package.
+ * Output has the same shape and value keys as the Alpha Vantage technical indicator responses
+ * ({ [timestamp]: { [key]: "value" } }), so the evaluator and the cache treat both sources alike.
+ * Timestamps are the bar timestamps as returned by Alpaca (RFC-3339, bar open time).
+ */
+import { SMA, EMA, RSI, MACD, BollingerBands, ADX, CCI, ADL, OBV, ATR } from 'technicalindicators';
+import { AlpacaBar } from '../../services/marketDataService';
+
+export type IndicatorData = Record<string, Record<string, string>>;
+
+export const LOCAL_INDICATOR_TYPES = [
+    'SMA', 'EMA', 'RSI', 'MACD', 'BBANDS', 'ADX', 'CCI', 'AROON', 'AD', 'OBV', 'STOCH', 'ATR', 'BAR',
+] as const;
+
+export const isLocalIndicatorType = (indicatorType: string): boolean =>
+    (LOCAL_INDICATOR_TYPES as readonly string[]).includes(indicatorType);
+
+// Value keys of the indicators that return several series per timestamp (Alpha Vantage names).
+// Conditions on these must pick one with Condition.dataKey.
+export const MULTI_OUTPUT_INDICATOR_KEYS: Record<string, string[]> = {
+    MACD: ['MACD', 'MACD_Signal', 'MACD_Hist'],
+    BBANDS: ['Real Upper Band', 'Real Middle Band', 'Real Lower Band'],
+    STOCH: ['SlowK', 'SlowD'],
+    AROON: ['Aroon Up', 'Aroon Down'],
+    BAR: ['open', 'high', 'low', 'close', 'volume'], // The bars themselves, referenced by expressions
+};
+
+// Alpha Vantage parameters arrive as strings or numbers depending on who created the condition
+const numberParam = (parameters: Record<string, any>, name: string, fallback: number): number => {
+    const value = Number(parameters[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const seriesOf = (bars: AlpacaBar[], seriesType: string = 'close'): number[] => {
+    switch (seriesType) {
+        case 'open': return bars.map(b => b.o);
+        case 'high': return bars.map(b => b.h);
+        case 'low': return bars.map(b => b.l);
+        default: return bars.map(b => b.c);
+    }
+};
+
+const formatValue = (value: number): string => value.toFixed(4);
+
+// Indicator outputs are shorter than their input; the last output belongs to the last bar
+const alignToBars = <T>(
+    bars: AlpacaBar[],
+    outputs: T[],
+    toValues: (output: T) => Record<string, number | undefined>
+): IndicatorData => {
+    const data: IndicatorData = {};
+    const offset = bars.length - outputs.length;
+    outputs.forEach((output, i) => {
+        const values = toValues(output);
+        const entry: Record<string, string> = {};
+        for (const [key, value] of Object.entries(values)) {
+            if (value === undefined || !Number.isFinite(value)) return; // Skip bars still warming up
+            entry[key] = formatValue(value);
+        }
+        data[bars[offset + i].t] = entry;
+    });
+    return data;
+};
+
+// Aroon has no technicalindicators implementation: 100 * (period - bars since the extreme) / period
+const computeAroon = (bars: AlpacaBar[], period: number): IndicatorData => {
+    const data: IndicatorData = {};
+    for (let i = period; i < bars.length; i++) {
+        let highIndex = i;
+        let lowIndex = i;
+        for (let j = i - period; j <= i; j++) {
+            if (bars[j].h >= bars[highIndex].h) highIndex = j;
+            if (bars[j].l <= bars[lowIndex].l) lowIndex = j;
+        }
+        data[bars[i].t] = {
+            'Aroon Down': formatValue(100 * (period - (i - lowIndex)) / period),
+            'Aroon Up': formatValue(100 * (period - (i - highIndex)) / period),
+        };
+    }
+    return data;
+};
+
+// Slow stochastic as Alpha Vantage computes it: SlowK = SMA(FastK), SlowD = SMA(SlowK)
+const computeStochastic = (bars: AlpacaBar[], fastKPeriod: number, slowKPeriod: number, slowDPeriod: number): IndicatorData => {
+    const fastK: number[] = [];
+    for (let i = fastKPeriod - 1; i < bars.length; i++) {
+        const window = bars.slice(i - fastKPeriod + 1, i + 1);
+        const highest = Math.max(...window.map(b => b.h));
+        const lowest = Math.min(...window.map(b => b.l));
+        fastK.push(highest === lowest ? 50 : 100 * (bars[i].c - lowest) / (highest - lowest));
+    }
+    const slowK = SMA.calculate({ period: slowKPeriod, values: fastK });
+    const slowD = SMA.calculate({ period: slowDPeriod, values: slowK });
+    const offset = slowK.length - slowD.length;
+    return alignToBars(bars, slowD.map((d, i) => ({ k: slowK[offset + i], d })), s => ({ SlowK: s.k, SlowD: s.d }));
+};
+
+/**
+ * Computes one indicator over the bars (oldest first) using Alpha Vantage parameter names
+ * (time_period, series_type, fastperiod, slowperiod, signalperiod, nbdevup, nbdevdn, fastkperiod, ...).
+ * Throws for indicator types that cannot be computed locally.
+ */
+export const computeLocalIndicator = (
+    indicatorType: string,
+    parameters: Record<string, any>,
+    bars: AlpacaBar[]
+): IndicatorData => {
+    const period = numberParam(parameters, 'time_period', 14);
+    const values = seriesOf(bars, parameters.series_type);
+    const high = bars.map(b => b.h);
+    const low = bars.map(b => b.l);
+    const close = bars.map(b => b.c);
+    const volume = bars.map(b => b.v);
+
+    switch (indicatorType) {
+        case 'SMA':
+            return alignToBars(bars, SMA.calculate({ period, values }), v => ({ SMA: v }));
+        case 'EMA':
+            return alignToBars(bars, EMA.calculate({ period, values }), v => ({ EMA: v }));
+        case 'RSI':
+            return alignToBars(bars, RSI.calculate({ period, values }), v => ({ RSI: v }));
+        case 'MACD': {
+            const output = MACD.calculate({
+                values,
+                fastPeriod: numberParam(parameters, 'fastperiod', 12),
+                slowPeriod: numberParam(parameters, 'slowperiod', 26),
+                signalPeriod: numberParam(parameters, 'signalperiod', 9),
+                SimpleMAOscillator: false,
+                SimpleMASignal: false,
+            });
+            return alignToBars(bars, output, m => ({ MACD: m.MACD, MACD_Hist: m.histogram, MACD_Signal: m.signal }));
+        }
+        case 'BBANDS': {
+            // One standard deviation per bar, scaled by nbdevup and nbdevdn separately like Alpha Vantage does
+            const output = BollingerBands.calculate({ period, values, stdDev: 1 });
+            const deviationsUp = numberParam(parameters, 'nbdevup', 2);
+            const deviationsDown = numberParam(parameters, 'nbdevdn', 2);
+            return alignToBars(bars, output, b => ({
+                'Real Upper Band': b.middle + deviationsUp * (b.upper - b.middle),
+                'Real Middle Band': b.middle,
+                'Real Lower Band': b.middle - deviationsDown * (b.upper - b.middle),
+            }));
+        }
+        case 'ADX':
+            return alignToBars(bars, ADX.calculate({ high, low, close, period }), a => ({ ADX: a.adx }));
+        case 'CCI':
+            return alignToBars(bars, CCI.calculate({ high, low, close, period }), v => ({ CCI: v }));
+        case 'ATR':
+            return alignToBars(bars, ATR.calculate({ high, low, close, period }), v => ({ ATR: v }));
+        case 'AROON':
+            return computeAroon(bars, period);
+        case 'AD':
+            return alignToBars(bars, ADL.calculate({ high, low, close, volume }), v => ({ 'Chaikin A/D': v }));
+        case 'OBV':
+            return alignToBars(bars, OBV.calculate({ close, volume }), v => ({ OBV: v }));
+        case 'STOCH':
+            return computeStochastic(
+                bars,
+                numberParam(parameters, 'fastkperiod', 5),
+                numberParam(parameters, 'slowkperiod', 3),
+                numberParam(parameters, 'slowdperiod', 3)
+            );
+        case 'BAR':
+            return alignToBars(bars, bars, b => ({ open: b.o, high: b.h, low: b.l, close: b.c, volume: b.v }));
+        default:
+            throw new Error(`Indicator type ${indicatorType} cannot be computed locally`);
+    }
+};
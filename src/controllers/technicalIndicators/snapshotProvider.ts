@@ -0,0 +1,122 @@
+// src/controllers/technicalIndicators/snapshotProvider.ts
+/**
+ * Market quantities read straight from Alpaca snapshots, so rules like "AAPL PRICE < 180" need no indicator fetch:
+ *  - PRICE: last trade price
+ *  - VOLUME / VWAP: volume and volume-weighted average price of the current daily bar
+ *  - DAILY_CHANGE_PCT: last price against the previous daily close, in percent
+ *  - GAP_PCT: today's open against the previous daily close, in percent
+ * A snapshot is a single point, so each fetch is appended to the cached series (timestamped with the last trade)
+ * and crossovers compare against the previous refresh. The condition's interval only sets how often it is refreshed.
+ * Backtests derive the same quantities from historical bars instead (see marketQuantitiesFromBars).
+ */
+import { AlpacaBar, AlpacaSnapshot, fetchSnapshot } from '../../services/marketDataService';
+import { generateCacheKey, getCachedIndicatorEntry } from './cache';
+import { IndicatorData } from './localIndicators';
+import { TechnicalIndicator } from './technicalIndicators';
+import { IndicatorProvider, ProviderResult } from './indicatorProviders';
+
+export const MARKET_QUANTITY_TYPES = ['PRICE', 'VOLUME', 'VWAP', 'DAILY_CHANGE_PCT', 'GAP_PCT'] as const;
+
+export const isMarketQuantityType = (indicatorType: string): boolean =>
+    (MARKET_QUANTITY_TYPES as readonly string[]).includes(indicatorType);
+
+const SNAPSHOT_HISTORY_POINTS = 200; // Refreshes kept in the cached series
+const SNAPSHOT_REUSE_MS = 5 * 1000; // Quantities of the same symbol scheduled together share one snapshot
+
+interface SnapshotFetch {
+    snapshot: Promise<AlpacaSnapshot | null>;
+    fetchedAt: number;
+}
+
+// In-flight and recently completed snapshot fetches, keyed by symbol
+const snapshotFetches = new Map<string, SnapshotFetch>();
+
+const getSnapshot = (symbol: string): Promise<AlpacaSnapshot | null> => {
+    const existing = snapshotFetches.get(symbol);
+    if (existing && Date.now() - existing.fetchedAt < SNAPSHOT_REUSE_MS) {
+        return existing.snapshot;
+    }
+
+    const snapshot = fetchSnapshot(symbol);
+    snapshotFetches.set(symbol, { snapshot, fetchedAt: Date.now() });
+    // A failed fetch must not be reused
+    snapshot.catch(() => snapshotFetches.delete(symbol));
+    return snapshot;
+};
+
+const percentChange = (value: number | undefined, base: number | undefined): number | undefined =>
+    value !== undefined && base ? (value - base) / base * 100 : undefined;
+
+// Value of a market quantity in a snapshot, undefined when the snapshot lacks the fields it needs
+const snapshotValue = (indicatorType: string, snapshot: AlpacaSnapshot): number | undefined => {
+    const lastPrice = snapshot.latestTrade?.p ?? snapshot.minuteBar?.c ?? snapshot.dailyBar?.c;
+    switch (indicatorType) {
+        case 'PRICE': return lastPrice;
+        case 'VOLUME': return snapshot.dailyBar?.v;
+        case 'VWAP': return snapshot.dailyBar?.vw;
+        case 'DAILY_CHANGE_PCT': return percentChange(lastPrice, snapshot.prevDailyBar?.c);
+        case 'GAP_PCT': return percentChange(snapshot.dailyBar?.o, snapshot.prevDailyBar?.c);
+        default: return undefined;
+    }
+};
+
+// Market quantities that describe the current daily bar, only meaningful over daily bars
+export const DAILY_MARKET_QUANTITY_TYPES = ['VOLUME', 'VWAP', 'DAILY_CHANGE_PCT', 'GAP_PCT'];
+
+/**
+ * A market quantity at the close of each bar (oldest first), as a snapshot taken then would have read it:
+ * PRICE is the close, VOLUME/VWAP the bar's own, DAILY_CHANGE_PCT and GAP_PCT the close and the open against
+ * the previous bar's close. Bars lacking a value (no vw, no previous bar) are left out.
+ */
+export const marketQuantitiesFromBars = (indicatorType: string, bars: AlpacaBar[]): IndicatorData => {
+    const data: IndicatorData = {};
+    bars.forEach((bar, i) => {
+        const previousClose = bars[i - 1]?.c;
+        let value: number | undefined;
+        switch (indicatorType) {
+            case 'PRICE': value = bar.c; break;
+            case 'VOLUME': value = bar.v; break;
+            case 'VWAP': value = bar.vw; break;
+            case 'DAILY_CHANGE_PCT': value = percentChange(bar.c, previousClose); break;
+            case 'GAP_PCT': value = percentChange(bar.o, previousClose); break;
+        }
+        if (value !== undefined && Number.isFinite(value)) {
+            data[bar.t] = { [indicatorType]: value.toFixed(4) };
+        }
+    });
+    return data;
+};
+
+const readSnapshotQuantity = async (params: TechnicalIndicator): Promise<ProviderResult> => {
+    const indicatorType = params.indicatorType ?? params.function;
+    const snapshot = await getSnapshot(params.symbol);
+    if (!snapshot) {
+        throw new Error(`No Alpaca snapshot for ${params.symbol}`);
+    }
+    const value = snapshotValue(indicatorType, snapshot);
+    const observedAt = snapshot.latestTrade?.t ?? snapshot.minuteBar?.t ?? snapshot.dailyBar?.t;
+    if (value === undefined || !Number.isFinite(value) || !observedAt) {
+        throw new Error(`Alpaca snapshot for ${params.symbol} has no data for ${indicatorType}`);
+    }
+    // Alpaca trade timestamps carry nanoseconds, normalise them like the bar timestamps
+    const timestamp = new Date(observedAt).toISOString();
+
+    // Append to the series cached by the previous refreshes; a repeated timestamp (market closed) overwrites its point
+    const previous = await getCachedIndicatorEntry<IndicatorData>(generateCacheKey(params));
+    const data: IndicatorData = { ...(previous?.data ?? {}), [timestamp]: { [indicatorType]: value.toFixed(4) } };
+    for (const stale of Object.keys(data).sort().slice(0, -SNAPSHOT_HISTORY_POINTS)) {
+        delete data[stale];
+    }
+
+    return {
+        data,
+        metadata: { lastRefreshed: timestamp, points: Object.keys(data).length },
+        lastRefreshed: timestamp,
+    };
+};
+
+export const alpacaSnapshotProvider: IndicatorProvider = {
+    name: 'ALPACA',
+    supports: isMarketQuantityType,
+    fetchIndicator: readSnapshotQuantity,
+};
@@ -15,6 +15,8 @@ import marketDataRoutes from './routes/marketDataRoutes/marketDataRoutes';
 import tradingRoutes from './routes/brokerRoutes/tradingRoutes';
 import strategyRoutes from './routes/strategyRoutes/strategyRoutes';
 import userRoutes from './routes/userRoutes/userRoutes';
+import indicatorRoutes from './routes/indicatorRoutes/indicatorRoutes';
+import adminRoutes from './routes/adminRoutes/adminRoutes';
 
 import connectToAlpacaMarketData from './websocket/marketDataStream';
 import { getOBV, getSMA } from './controllers/technicalIndicators/technicalIndicators';
@@ -24,6 +26,8 @@ import { getOBV, getSMA } from './controllers/technicalIndicators/technicalIndic
 import { startScheduler, stopScheduler } from './controllers/scheduler/schedulerService';
 import { startConsumer as startEvaluationConsumer } from './controllers/evaluationService/consumer';
 import { startActionConsumer } from './controllers/actionService/consumer';
+import { startSweepWorker, stopSweepWorker } from './controllers/backtestService/sweepWorker';
+import { startIndicatorFetchWorker, stopIndicatorFetchWorker } from './controllers/scheduler/fetchWorker';
 
 
 app.use(cors()); 
@@ -38,6 +42,8 @@ app.use('/api/trading',tradingRoutes)
 app.use('/api',marketDataRoutes)
 app.use('/api/strategies', strategyRoutes);
 app.use('/api', userRoutes);
+app.use('/api/indicators', indicatorRoutes);
+app.use('/api/admin', adminRoutes);
 
 
 
@@ -82,8 +88,17 @@ const startServer = async () => {
         });
         console.log('Action Service Consumer Initiated.');
 
+        // 5. Start the backtest sweep worker (BullMQ)
+        console.log('Starting Backtest Sweep Worker...');
+        startSweepWorker();
+        console.log('Backtest Sweep Worker Started.');
 
-        // 5. Start the Express server
+        // 6. Start the indicator fetch worker (BullMQ), runs the jobs of the scheduler's job schedulers
+        console.log('Starting Indicator Fetch Worker...');
+        startIndicatorFetchWorker();
+        console.log('Indicator Fetch Worker Started.');
+
+        // 7. Start the Express server
         app.listen(PORT, () => {
             console.log(`Server running on http://localhost:${PORT}`);
         });
@@ -97,6 +112,8 @@ const startServer = async () => {
 const shutdown = async () => {
     console.log('Shutting down gracefully...');
     stopScheduler(); // Stop cron jobs
+    await stopSweepWorker();
+    await stopIndicatorFetchWorker();
     // Add logic here to disconnect Redis client if needed (depends on client library behavior)
     // Add logic to signal consumers to stop gracefully if possible
     console.log('Shutdown complete.');
@@ -0,0 +1,13 @@
+// src/routes/adminRoutes/adminRoutes.ts
+import { Router } from 'express';
+import * as deadLetterController from '../../controllers/adminAPI/deadLetterController';
+
+const router = Router();
+
+// --- Dead-lettered stream messages ---
+router.get('/dead-letters', deadLetterController.getDeadLetters); // Optional ?limit=...&stream=...
+router.get('/dead-letters/:deadLetterId', deadLetterController.getDeadLetterById);
+router.post('/dead-letters/:deadLetterId/replay', deadLetterController.replayDeadLetterById);
+router.delete('/dead-letters/:deadLetterId', deadLetterController.discardDeadLetterById);
+
+export default router;
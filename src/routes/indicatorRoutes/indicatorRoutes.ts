@@ -0,0 +1,10 @@
+// src/routes/indicatorRoutes/indicatorRoutes.ts
+import { Router } from 'express';
+import { getIndicatorQuota } from '../../controllers/technicalIndicators/indicatorQuotaController';
+
+const router = Router();
+
+// @routes GET /indicators/quota
+router.get('/quota', getIndicatorQuota);
+
+export default router;
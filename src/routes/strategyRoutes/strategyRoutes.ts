@@ -2,6 +2,9 @@
 import { Router } from 'express';
 import * as strategyController from '../../controllers/strategyAPI/strategyController'; 
 import * as strategyBlockController from '../../controllers/strategyAPI/strategyBlockController';
+import * as strategyRunController from '../../controllers/strategyAPI/strategyRunController';
+import * as backtestController from '../../controllers/strategyAPI/backtestController';
+import * as sweepController from '../../controllers/strategyAPI/sweepController';
 const router = Router();
 
 // --- Strategy Routes ---
@@ -18,4 +21,14 @@ router.patch('/:strategyId/blocks/:blockId', strategyBlockController.updateStrat
 router.delete('/:strategyId/blocks/:blockId', strategyBlockController.deleteStrategyBlock);
 // GET for specific block isn't usually needed if GET /:strategyId returns the tree
 
+// --- Execution History Routes ---
+router.get('/:strategyId/runs', strategyRunController.getStrategyRuns); // Optional ?limit=...&before=...
+router.get('/:strategyId/runs/:runId', strategyRunController.getStrategyRunById);
+router.post('/:strategyId/evaluate', strategyRunController.evaluateStrategyNow); // Dry run only, returns the trace and the actions it would publish
+
+// --- Backtesting Routes ---
+router.post('/:strategyId/backtest', backtestController.backtestStrategy);
+router.post('/:strategyId/sweeps', sweepController.startSweep); // Runs as a background job, returns its id
+router.get('/:strategyId/sweeps/:jobId', sweepController.getSweep); // Progress, then the ranked results
+
 export default router;
\ No newline at end of file
@@ -5,6 +5,8 @@ const prisma = new PrismaClient();
 async function main() {
   console.log('Clearing existing data...');
   // Use your clearDB logic or deleteMany calls here first if needed
+  await prisma.strategyRun.deleteMany({}); // Condition results and dispatches cascade
+  await prisma.strategyOrder.deleteMany({});
   await prisma.strategyBlock.deleteMany({}); // Delete blocks first due to hierarchy
   await prisma.action.deleteMany({});
   await prisma.condition.deleteMany({});
@@ -0,0 +1,171 @@
+/**
+ * Plain (non-Express) helpers around the Alpaca market data endpoints wrapped by the marketDataAPI controllers,
+ * for services that need bars or fundamentals outside of a request (evaluation, allocation, ...).
+ */
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { getAlpacaMarketAuth, ALPACA_HISTORICAL_DATA_BASE_URL, ALPACA_CRYPTO_DATA_BASE_URL } from '../utils/authUtils';
+import { getRedisClient } from '../utils/redisClient';
+import {
+    FetchPriority, AlphaVantageQuotaError, acquireAlphaVantageSlot, alphaVantageRateLimitNote, coalesceAlphaVantageRequest,
+    markAlphaVantageQuotaExhausted
+} from '../controllers/technicalIndicators/alphaVantageRateLimiter';
+
+dotenv.config();
+
+const alphaVantageBaseUrl = 'https://www.alphavantage.co/query';
+const MARKET_CAP_TTL_SECONDS = 86400;
+
+// Bar as returned by the Alpaca v2 stock / v1beta3 crypto bars endpoints
+export interface AlpacaBar {
+    t: string;  // RFC-3339 timestamp
+    o: number;
+    h: number;
+    l: number;
+    c: number;
+    v: number;
+    n?: number;
+    vw?: number;
+}
+
+// Snapshot as returned by the Alpaca stock / crypto snapshot endpoints (only the fields read here)
+export interface AlpacaSnapshot {
+    latestTrade?: { t: string; p: number; s?: number };
+    minuteBar?: AlpacaBar;
+    dailyBar?: AlpacaBar;
+    prevDailyBar?: AlpacaBar;
+}
+
+export interface BarsQuery {
+    start?: string;
+    end?: string;
+    limit?: number;
+}
+
+// Condition intervals (Alpha Vantage names) mapped to Alpaca bar timeframes and their length
+const INTERVAL_TIMEFRAMES: Record<string, { timeframe: string; minutes: number }> = {
+    '1min': { timeframe: '1Min', minutes: 1 },
+    '5min': { timeframe: '5Min', minutes: 5 },
+    '15min': { timeframe: '15Min', minutes: 15 },
+    '30min': { timeframe: '30Min', minutes: 30 },
+    '60min': { timeframe: '1Hour', minutes: 60 },
+    'daily': { timeframe: '1Day', minutes: 1440 },
+    'weekly': { timeframe: '1Week', minutes: 10080 },
+    'monthly': { timeframe: '1Month', minutes: 43200 },
+};
+
+// Alpaca timeframe for a condition interval, null for intervals Alpaca has no bars for
+export const toAlpacaTimeframe = (interval: string): string | null => INTERVAL_TIMEFRAMES[interval]?.timeframe ?? null;
+
+// Nominal length of one bar of the interval in minutes, null when unknown
+export const intervalMinutes = (interval: string): number | null => INTERVAL_TIMEFRAMES[interval]?.minutes ?? null;
+
+// Crypto pairs are written with a slash on Alpaca (BTC/USD), equities never are
+export const isCryptoSymbol = (symbol: string): boolean => symbol.includes('/');
+
+/**
+ * Fetches bars for one symbol from the same endpoints getStockBars / getHistoricalBarsCrypto use,
+ * following next_page_token until the range is exhausted. Bars are returned oldest first.
+ */
+export const fetchBars = async (symbol: string, timeframe: string, query: BarsQuery = {}): Promise<AlpacaBar[]> => {
+    const url = isCryptoSymbol(symbol)
+        ? `${ALPACA_CRYPTO_DATA_BASE_URL}/us/bars`
+        : `${ALPACA_HISTORICAL_DATA_BASE_URL}/stocks/bars`;
+
+    const bars: AlpacaBar[] = [];
+    let pageToken: string | undefined = undefined;
+    do {
+        const response: { data: any } = await axios.get(url, {
+            headers: {
+                ...getAlpacaMarketAuth(),
+                'Accept': 'application/json',
+            },
+            params: {
+                symbols: symbol,
+                timeframe,
+                start: query.start,
+                end: query.end,
+                limit: 10000,
+                adjustment: isCryptoSymbol(symbol) ? undefined : 'all',
+                page_token: pageToken,
+            }
+        });
+        bars.push(...(response.data?.bars?.[symbol] ?? []));
+        pageToken = response.data?.next_page_token ?? undefined;
+    } while (pageToken && (!query.limit || bars.length < query.limit));
+
+    return query.limit ? bars.slice(-query.limit) : bars;
+};
+
+// The last `barCount` bars of an interval, enough history to warm up indicators. Oldest first.
+export const fetchRecentBars = async (symbol: string, interval: string, barCount: number): Promise<AlpacaBar[]> => {
+    const timeframe = toAlpacaTimeframe(interval);
+    if (!timeframe) {
+        throw new Error(`Unsupported interval for Alpaca bars: ${interval}`);
+    }
+    // Intraday equity bars only cover trading hours and daily bars skip weekends/holidays, so pad the window
+    const minutes = intervalMinutes(interval)!;
+    const padding = minutes < 1440 ? 5 : 1.6;
+    const start = new Date(Date.now() - Math.ceil(barCount * minutes * padding + 7 * 1440) * 60 * 1000);
+    const bars = await fetchBars(symbol, timeframe, { start: start.toISOString() });
+    return bars.slice(-barCount);
+};
+
+// Latest trade and minute/daily bars of one symbol from the endpoints getSnapshots / getSnapshotsCrypto use.
+// Null when Alpaca has no snapshot for the symbol.
+export const fetchSnapshot = async (symbol: string): Promise<AlpacaSnapshot | null> => {
+    const url = isCryptoSymbol(symbol)
+        ? `${ALPACA_CRYPTO_DATA_BASE_URL}/us/snapshots`
+        : `${ALPACA_HISTORICAL_DATA_BASE_URL}/stocks/snapshots`;
+
+    const response = await axios.get(url, {
+        headers: {
+            ...getAlpacaMarketAuth(),
+            'Accept': 'application/json',
+        },
+        params: { symbols: symbol },
+    });
+    // Crypto snapshots are nested under 'snapshots', stock snapshots are keyed by symbol at the top level
+    const snapshots = isCryptoSymbol(symbol) ? response.data?.snapshots : response.data;
+    return snapshots?.[symbol] ?? null;
+};
+
+// Daily closing prices for roughly the last `lookbackDays` trading days, oldest first
+export const fetchDailyCloses = async (symbol: string, lookbackDays: number): Promise<number[]> => {
+    // Calendar days are padded so weekends/holidays still leave enough trading days
+    const start = new Date(Date.now() - Math.ceil(lookbackDays * 1.6 + 7) * 86400 * 1000);
+    const bars = await fetchBars(symbol, '1Day', { start: start.toISOString() });
+    return bars.slice(-(lookbackDays + 1)).map(bar => bar.c);
+};
+
+/**
+ * Market capitalization from the Alpha Vantage company overview, cached for a day; null when Alpha Vantage has none.
+ * The call shares the Alpha Vantage quota with the indicator fetches (see alphaVantageRateLimiter), at priority
+ * 'live' for live strategy evaluation and 'adhoc' otherwise; throws AlphaVantageQuotaError when the quota is used up.
+ */
+export const fetchMarketCap = async (symbol: string, priority: FetchPriority = 'adhoc'): Promise<number | null> => {
+    const cacheKey = `fundamentals:marketCap:${symbol}`;
+    const redisClient = getRedisClient();
+    const cached = await redisClient.get(cacheKey);
+    if (cached) return parseFloat(cached);
+
+    return coalesceAlphaVantageRequest(`OVERVIEW|${symbol}`, async () => {
+        await acquireAlphaVantageSlot(priority);
+        const response = await axios.get(alphaVantageBaseUrl, {
+            params: { function: 'OVERVIEW', symbol, apikey: process.env.ALPHA_VANTAGE_API_KEY },
+        });
+        const note = alphaVantageRateLimitNote(response.data);
+        if (note) {
+            // Pauses every process's Alpha Vantage calls until the quota resets; not the same as having no market cap
+            await markAlphaVantageQuotaExhausted(note);
+            throw new AlphaVantageQuotaError(`Rate limited fetching the market cap of ${symbol}: ${note}`);
+        }
+        const marketCap = parseFloat(response.data?.MarketCapitalization);
+        if (isNaN(marketCap)) {
+            console.warn(`No market capitalization available for ${symbol}:`, response.data?.Information || 'empty overview');
+            return null;
+        }
+        await redisClient.set(cacheKey, String(marketCap), { EX: MARKET_CAP_TTL_SECONDS });
+        return marketCap;
+    });
+};
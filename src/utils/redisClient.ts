@@ -25,9 +25,16 @@ export const getRedisClient = () => {
     return redisClient;
 };
 
-const connection = {
+// Shared by every BullMQ queue and worker
+export const queueConnection = {
     host: 'localhost',
     port: 6379,
 }
 
-export const indicatorQueue = new Queue('indicatorQueue', { connection });
\ No newline at end of file
+// Indicator fetches, one job scheduler per active indicator (see scheduler/fetchOrchestrator)
+export const INDICATOR_QUEUE_NAME = 'indicatorQueue';
+export const indicatorQueue = new Queue(INDICATOR_QUEUE_NAME, { connection: queueConnection });
+
+// Backtest parameter sweeps and walk-forward runs, processed by the backtest worker
+export const BACKTEST_QUEUE_NAME = 'backtestQueue';
+export const backtestQueue = new Queue(BACKTEST_QUEUE_NAME, { connection: queueConnection });
\ No newline at end of file